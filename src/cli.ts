@@ -0,0 +1,437 @@
+import { CodeRabbitComment } from "./types.js";
+import { GitHubClient } from "./github-client.js";
+import { ResolutionLedger } from "./resolution-ledger.js";
+import { getPackageVersion } from "./server.js";
+import { getCoderabbitReviews } from "./tools/get-reviews.js";
+import { getReviewComments } from "./tools/get-comments.js";
+import { getCommentDetails } from "./tools/get-comment-details.js";
+import { resolveComment } from "./tools/resolve-comment.js";
+import { parseReviewItemId } from "./parser/index.js";
+
+const COMMANDS = ["reviews", "comments", "comment", "resolve"] as const;
+
+type Command = typeof COMMANDS[number];
+
+const VALUE_FLAGS = ["repo", "pr", "review", "path", "severity", "resolution", "note", "reply-mode", "commit"] as const;
+const BOOLEAN_FLAGS = ["json", "help", "version", "scan-recent-prs", "unresolved", "exclude-outdated", "inline-only"] as const;
+
+const DESCRIPTION_WIDTH = 72;
+
+const HELP_TEXT = `Usage: coderabbitai-mcp [command] [options]
+
+Without a command, starts the MCP server (stdio by default).
+
+Commands:
+  reviews <owner/repo> <pr>         List CodeRabbit reviews on a pull request
+  comments <owner/repo> <pr>        List CodeRabbit inline comments on a pull request
+  comment <id|url>                  Show one CodeRabbit comment in detail
+  resolve <id|url|item-id>          Mark a CodeRabbit comment or review body item as resolved
+
+A pull request can also be given as its URL, e.g. https://github.com/owner/repo/pull/15
+
+Options:
+  --repo <owner/repo>               Repository for comment/resolve when passing a numeric ID
+  --pr <number>                     Pull request the comment belongs to (speeds up lookup)
+  --review <id>                     comments: only comments from this review
+  --path <glob>                     comments: only comments on matching files, e.g. "src/**/*.ts"
+  --severity <list>                 comments: comma-separated severities (error,warning,suggestion,info)
+  --unresolved                      comments: hide resolved comments
+  --exclude-outdated                comments: hide comments on lines that changed since
+  --inline-only                     comments: leave out nitpick/duplicate items from review bodies
+  --resolution <type>               resolve: addressed (default), wont_fix or not_applicable
+  --note <text>                     resolve: note to include in the reply
+  --reply-mode <mode>               resolve: thread (default) or pr_comment
+  --commit <sha>                    resolve: commit that addressed the comment
+  --scan-recent-prs                 comment/resolve: search recent PRs if the comment can't be fetched directly
+  --json                            Print raw JSON instead of tables
+  -h, --help                        Show this help
+  -v, --version                     Show the version
+
+Server options:
+  --transport <stdio|http>          Transport to serve MCP over (default: stdio)
+  --port <number>                   HTTP port (default: 3000)
+  --host <address>                  HTTP bind address (default: 127.0.0.1; others need CODERABBIT_HTTP_TOKEN)
+`;
+
+interface ParsedCliArgs {
+  command?: Command;
+  positionals: string[];
+  values: Partial<Record<typeof VALUE_FLAGS[number], string>>;
+  flags: Partial<Record<typeof BOOLEAN_FLAGS[number], boolean>>;
+}
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+/**
+ * Whether the arguments ask for a CLI command rather than the MCP server
+ *
+ * The server only takes options, so any leading positional is treated as a command.
+ */
+export function isCliInvocation(args: string[]): boolean {
+  return args.length > 0 && (
+    !args[0].startsWith("-") ||
+    args.some(arg => ["--help", "-h", "--version", "-v"].includes(arg))
+  );
+}
+
+/**
+ * Run a CLI command and return the process exit code
+ */
+export async function runCli(args: string[]): Promise<number> {
+  try {
+    const parsed = parseCliArgs(args);
+
+    if (parsed.flags.version) {
+      console.log(getPackageVersion());
+      return 0;
+    }
+    if (parsed.flags.help || !parsed.command) {
+      console.log(HELP_TEXT);
+      return 0;
+    }
+
+    if (!process.env.GITHUB_PAT) {
+      console.error("❌ Error: GITHUB_PAT environment variable is required");
+      return 1;
+    }
+
+    const githubClient = new GitHubClient();
+    const ledger = new ResolutionLedger();
+
+    switch (parsed.command) {
+      case "reviews":
+        return await runReviews(parsed, githubClient);
+      case "comments":
+        return await runComments(parsed, githubClient, ledger);
+      case "comment":
+        return await runComment(parsed, githubClient, ledger);
+      case "resolve":
+        return await runResolve(parsed, githubClient, ledger);
+    }
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+    if (error instanceof UsageError) {
+      console.error("   Run with --help for usage");
+      return 2;
+    }
+    return 1;
+  }
+}
+
+async function runReviews(parsed: ParsedCliArgs, githubClient: GitHubClient): Promise<number> {
+  const { owner, repo, pullNumber } = parsePullRequestTarget(parsed.positionals);
+  const result = await getCoderabbitReviews({ owner, repo, pullNumber }, githubClient);
+
+  if (parsed.flags.json) {
+    printJson(result);
+    return 0;
+  }
+
+  if (result.reviews.length === 0) {
+    console.log(`No CodeRabbit reviews on ${owner}/${repo}#${pullNumber}`);
+    return 0;
+  }
+
+  printTable(
+    ["ID", "SUBMITTED", "STATE", "ACTIONABLE", "COMMIT"],
+    result.reviews.map(review => [
+      String(review.id),
+      review.submitted_at.replace("T", " ").replace(/:\d\dZ$/, ""),
+      review.state,
+      String(review.actionable_comments),
+      review.commit_id.slice(0, 7)
+    ])
+  );
+  printCapWarning(result.results_capped);
+  return 0;
+}
+
+async function runComments(
+  parsed: ParsedCliArgs,
+  githubClient: GitHubClient,
+  ledger: ResolutionLedger
+): Promise<number> {
+  const { owner, repo, pullNumber } = parsePullRequestTarget(parsed.positionals);
+  const reviewId = parsed.values.review ? parsePositiveInt(parsed.values.review, "--review") : undefined;
+  const severity = parsed.values.severity?.split(",").map(value => value.trim()).filter(Boolean);
+  const invalidSeverity = severity?.find(value => !["error", "warning", "suggestion", "info"].includes(value));
+  if (invalidSeverity) {
+    throw new UsageError(`Invalid --severity "${invalidSeverity}"`);
+  }
+  const result = await getReviewComments({
+    owner,
+    repo,
+    pullNumber,
+    reviewId,
+    path: parsed.values.path,
+    severity: severity as Array<"error" | "warning" | "info" | "suggestion"> | undefined,
+    unresolvedOnly: parsed.flags.unresolved ?? false,
+    excludeOutdated: parsed.flags["exclude-outdated"] ?? false,
+    compact: false,
+    includeReviewBodyItems: !parsed.flags["inline-only"]
+  }, githubClient, ledger);
+  // No projection was requested, so every comment has all fields
+  const comments = result.comments as CodeRabbitComment[];
+
+  if (parsed.flags.json) {
+    printJson(result);
+    return 0;
+  }
+
+  if (comments.length === 0) {
+    console.log(`No CodeRabbit comments on ${owner}/${repo}#${pullNumber}`);
+    return 0;
+  }
+
+  printTable(
+    ["ID", "SEVERITY", "STATUS", "LOCATION", "DESCRIPTION"],
+    comments.map(comment => [
+      String(comment.id),
+      comment.severity,
+      commentStatus(comment),
+      formatLocation(comment.path, comment.line_range),
+      truncate(firstLine(comment.description), DESCRIPTION_WIDTH)
+    ])
+  );
+  printCapWarning(result.results_capped);
+  return 0;
+}
+
+async function runComment(
+  parsed: ParsedCliArgs,
+  githubClient: GitHubClient,
+  ledger: ResolutionLedger
+): Promise<number> {
+  const details = await getCommentDetails(parseCommentTarget(parsed), githubClient, ledger);
+
+  if (parsed.flags.json) {
+    printJson(details);
+    return 0;
+  }
+
+  const fields: Array<[string, string]> = [
+    ["Comment", String(details.id)],
+    ["Location", formatLocation(details.path, details.line_range)],
+    ["Severity", details.severity],
+    ["Category", details.category],
+    ["Status", commentStatus(details)],
+    ["Created", details.created_at],
+    ["URL", details.html_url]
+  ];
+  if (details.related_comments.length > 0) {
+    fields.push(["Related", details.related_comments.join(", ")]);
+  }
+
+  const labelWidth = Math.max(...fields.map(([label]) => label.length)) + 1;
+  for (const [label, value] of fields) {
+    console.log(`${`${label}:`.padEnd(labelWidth)} ${value}`);
+  }
+
+  console.log(`\n${details.description}`);
+  if (details.committable_suggestion !== undefined) {
+    console.log(`\nSuggestion:\n${indent(details.committable_suggestion)}`);
+  }
+  if (details.ai_prompt) {
+    console.log(`\nPrompt for AI agents:\n${indent(details.ai_prompt)}`);
+  }
+  return 0;
+}
+
+async function runResolve(
+  parsed: ParsedCliArgs,
+  githubClient: GitHubClient,
+  ledger: ResolutionLedger
+): Promise<number> {
+  const { resolution, note, commit } = parsed.values;
+  const replyMode = parsed.values["reply-mode"];
+
+  if (resolution && !["addressed", "wont_fix", "not_applicable"].includes(resolution)) {
+    throw new UsageError(`Invalid --resolution "${resolution}"`);
+  }
+  if (replyMode && !["thread", "pr_comment"].includes(replyMode)) {
+    throw new UsageError(`Invalid --reply-mode "${replyMode}"`);
+  }
+
+  const target = parsed.positionals[0];
+  const result = await resolveComment({
+    ...(target && parseReviewItemId(target) ? parseReviewItemTarget(parsed, target) : parseCommentTarget(parsed)),
+    resolution: (resolution ?? "addressed") as "addressed" | "wont_fix" | "not_applicable",
+    note,
+    commitSha: commit,
+    replyMode: (replyMode ?? "thread") as "thread" | "pr_comment"
+  }, githubClient, ledger);
+
+  if (parsed.flags.json) {
+    printJson(result);
+  } else {
+    console.log(`${result.success ? "✅" : "❌"} ${result.message}`);
+  }
+  return result.success ? 0 : 1;
+}
+
+function parseCliArgs(args: string[]): ParsedCliArgs {
+  const parsed: ParsedCliArgs = { positionals: [], values: {}, flags: {} };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (arg === "-h") {
+      parsed.flags.help = true;
+    } else if (arg === "-v") {
+      parsed.flags.version = true;
+    } else if (arg.startsWith("--")) {
+      const [name, inlineValue] = arg.slice(2).split(/=(.*)/s, 2);
+
+      if ((BOOLEAN_FLAGS as readonly string[]).includes(name)) {
+        parsed.flags[name as typeof BOOLEAN_FLAGS[number]] = true;
+      } else if ((VALUE_FLAGS as readonly string[]).includes(name)) {
+        const value = inlineValue ?? args[++i];
+        if (value === undefined) {
+          throw new UsageError(`Option --${name} needs a value`);
+        }
+        parsed.values[name as typeof VALUE_FLAGS[number]] = value;
+      } else {
+        throw new UsageError(`Unknown option --${name}`);
+      }
+    } else if (!parsed.command && parsed.positionals.length === 0) {
+      if (!(COMMANDS as readonly string[]).includes(arg)) {
+        throw new UsageError(`Unknown command "${arg}"`);
+      }
+      parsed.command = arg as Command;
+    } else {
+      parsed.positionals.push(arg);
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Accept `owner/repo <pr>` or a pull request URL
+ */
+function parsePullRequestTarget(positionals: string[]): { owner: string; repo: string; pullNumber: number } {
+  const urlMatch = positionals[0]?.match(/github\.com\/([^/]+)\/([^/]+)\/pull\/(\d+)/);
+  if (urlMatch) {
+    return { owner: urlMatch[1], repo: urlMatch[2], pullNumber: parseInt(urlMatch[3], 10) };
+  }
+
+  if (positionals.length < 2) {
+    throw new UsageError("Expected <owner/repo> <pr> or a pull request URL");
+  }
+
+  const { owner, repo } = parseRepo(positionals[0]);
+  return { owner, repo, pullNumber: parsePositiveInt(positionals[1], "pull request number") };
+}
+
+/**
+ * Accept a comment URL or a numeric ID with --repo
+ */
+function parseCommentTarget(parsed: ParsedCliArgs) {
+  const target = parsed.positionals[0];
+  if (!target) {
+    throw new UsageError("Expected a comment ID or URL");
+  }
+
+  const pullNumber = parsed.values.pr ? parsePositiveInt(parsed.values.pr, "--pr") : undefined;
+  const scanRecentPRs = parsed.flags["scan-recent-prs"] ?? false;
+
+  if (/^https?:\/\//.test(target)) {
+    return { commentUrl: target, pullNumber, scanRecentPRs };
+  }
+
+  if (!parsed.values.repo) {
+    throw new UsageError("--repo <owner/repo> is required with a numeric comment ID");
+  }
+
+  return {
+    ...parseRepo(parsed.values.repo),
+    commentId: parsePositiveInt(target, "comment ID"),
+    pullNumber,
+    scanRecentPRs
+  };
+}
+
+/**
+ * A review body item ID needs --repo and --pr, since it names no repository or PR
+ */
+function parseReviewItemTarget(parsed: ParsedCliArgs, reviewItemId: string) {
+  if (!parsed.values.repo || !parsed.values.pr) {
+    throw new UsageError("--repo <owner/repo> and --pr <number> are required with a review item ID");
+  }
+
+  return {
+    ...parseRepo(parsed.values.repo),
+    pullNumber: parsePositiveInt(parsed.values.pr, "--pr"),
+    reviewItemId,
+    scanRecentPRs: false
+  };
+}
+
+function parseRepo(value: string): { owner: string; repo: string } {
+  const [owner, repo, ...rest] = value.split("/");
+  if (!owner || !repo || rest.length > 0) {
+    throw new UsageError(`Expected <owner/repo>, got "${value}"`);
+  }
+  return { owner, repo };
+}
+
+function parsePositiveInt(value: string, label: string): number {
+  const parsed = Number(value.replace(/^#/, ""));
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new UsageError(`Invalid ${label} "${value}"`);
+  }
+  return parsed;
+}
+
+function printJson(value: unknown): void {
+  console.log(JSON.stringify(value, null, 2));
+}
+
+function printTable(headers: string[], rows: string[][]): void {
+  const widths = headers.map((header, column) =>
+    Math.max(header.length, ...rows.map(row => row[column].length))
+  );
+  const format = (cells: string[]) =>
+    cells.map((cell, column) => column === cells.length - 1 ? cell : cell.padEnd(widths[column])).join("  ");
+
+  console.log(format(headers));
+  for (const row of rows) {
+    console.log(format(row));
+  }
+}
+
+function printCapWarning(capped: boolean): void {
+  if (capped) {
+    console.error("⚠️  Results were capped by CODERABBIT_MAX_ITEMS");
+  }
+}
+
+function formatLocation(path: string, lineRange: { start: number; end: number }): string {
+  return lineRange.start === lineRange.end
+    ? `${path}:${lineRange.start}`
+    : `${path}:${lineRange.start}-${lineRange.end}`;
+}
+
+function commentStatus(comment: CodeRabbitComment): string {
+  if (comment.is_resolved) {
+    return comment.resolved_by ? `resolved by ${comment.resolved_by}` : "resolved";
+  }
+  return comment.is_outdated ? "outdated" : "open";
+}
+
+function firstLine(text: string): string {
+  return text.split("\n").find(line => line.trim())?.trim() ?? "";
+}
+
+function truncate(text: string, width: number): string {
+  return text.length > width ? `${text.slice(0, width - 1)}…` : text;
+}
+
+function indent(text: string): string {
+  return text.split("\n").map(line => `    ${line}`).join("\n");
+}
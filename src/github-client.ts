@@ -1,4 +1,5 @@
-import { GitHubReview, GitHubComment, GitHubUser } from './types.js';
+import { GitHubReview, GitHubComment, GitHubIssueComment, GitHubUser, GitHubReviewThread } from './types.js';
+import { ResponseCache, CachedResponse } from './response-cache.js';
 
 export interface GitHubPullRequest {
   id: number;
@@ -10,6 +11,34 @@ export interface GitHubPullRequest {
   html_url: string;
   created_at: string;
   updated_at: string;
+  head: GitHubBranchRef;
+  base: GitHubBranchRef;
+}
+
+export interface GitHubPullRequestCommit {
+  sha: string;
+  html_url: string;
+  commit: {
+    message: string;
+    author: { name: string; date: string } | null;
+  };
+}
+
+export interface GitHubBranchRef {
+  ref: string;
+  sha: string;
+  repo: {
+    name: string;
+    full_name: string;
+    owner: { login: string };
+  } | null;
+}
+
+export interface GitTreeEntry {
+  path: string;
+  mode: '100644' | '100755' | '040000' | '160000' | '120000';
+  type: 'blob' | 'tree' | 'commit';
+  sha: string | null;
 }
 
 export interface GitHubAPIError extends Error {
@@ -17,6 +46,192 @@ export interface GitHubAPIError extends Error {
   response?: any;
 }
 
+/**
+ * Rate limit budget for one GitHub API resource (core, graphql, search, ...)
+ */
+export interface RateLimitInfo {
+  resource: string;
+  limit: number;
+  remaining: number;
+  used: number;
+  /** Epoch seconds when the budget resets */
+  reset: number;
+}
+
+/**
+ * Outcome of resolving or unresolving a review thread.
+ * `method` is 'graphql' when GitHub actually changed the thread state and
+ * 'reaction' when the thread was left untouched and only a reaction was added.
+ */
+export interface ReviewThreadResolution {
+  method: 'graphql' | 'reaction';
+  /** Thread state as GitHub reports it afterwards; absent when the thread could not be read */
+  resolved?: boolean;
+  thread_id?: string;
+  fallback_reason?: string;
+}
+
+export interface GitHubClientOptions {
+  /** Page size for list endpoints (GitHub allows at most 100) */
+  perPage?: number;
+  /** Maximum number of items fetched across all pages of a list endpoint */
+  maxItems?: number;
+  /** Number of retries for rate-limited, 5xx or network failures */
+  maxRetries?: number;
+  /** Longest single wait (ms) for a retry or a rate limit reset before giving up */
+  maxWaitMs?: number;
+  /** Conditional-request cache for GET responses, or false to disable caching */
+  cache?: ResponseCache | false;
+}
+
+export interface PaginationOptions {
+  perPage?: number;
+  maxItems?: number;
+}
+
+/**
+ * Items collected from a paginated list endpoint.
+ * `truncated` is true when the max-items cap stopped pagination before the last page.
+ */
+export interface PaginatedResult<T> {
+  items: T[];
+  truncated: boolean;
+}
+
+const DEFAULT_PER_PAGE = 100;
+const DEFAULT_MAX_ITEMS = 1000;
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_MAX_WAIT_MS = 60_000;
+const BASE_BACKOFF_MS = 1000;
+
+const RETRYABLE_SERVER_STATUSES = [500, 502, 503, 504];
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Rebuild a response from a cache entry after a 304 Not Modified
+ */
+function responseFromCache(entry: CachedResponse): Response {
+  const headers: Record<string, string> = { 'content-type': 'application/json' };
+  if (entry.link) {
+    headers['link'] = entry.link;
+  }
+  return new Response(entry.body, { status: 200, headers });
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Exponential backoff with jitter: a random delay between 50% and 100% of base * 2^attempt
+ */
+function backoffDelay(attempt: number): number {
+  const exponential = BASE_BACKOFF_MS * 2 ** attempt;
+  return Math.round(exponential / 2 + Math.random() * exponential / 2);
+}
+
+function parsePositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = value ? parseInt(value) : NaN;
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+function parseNonNegativeInt(value: string | undefined, fallback: number): number {
+  const parsed = value ? parseInt(value) : NaN;
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+/**
+ * GitHub signals both primary and secondary rate limits with 403 or 429 responses
+ */
+function isRateLimitResponse(response: Response, body: string): boolean {
+  if (response.status === 429) return true;
+  if (response.status !== 403) return false;
+
+  return response.headers.get('x-ratelimit-remaining') === '0' ||
+    response.headers.has('retry-after') ||
+    /rate limit/i.test(body);
+}
+
+/**
+ * Extract the rel="next" URL from a GitHub Link header
+ */
+function parseNextLink(linkHeader: string | null): string | null {
+  if (!linkHeader) return null;
+
+  for (const part of linkHeader.split(',')) {
+    const match = part.match(/<([^>]+)>\s*;\s*rel="next"/);
+    if (match) {
+      return match[1];
+    }
+  }
+
+  return null;
+}
+
+const REVIEW_THREADS_QUERY = `
+  query($owner: String!, $repo: String!, $pullNumber: Int!, $cursor: String) {
+    repository(owner: $owner, name: $repo) {
+      pullRequest(number: $pullNumber) {
+        reviewThreads(first: 100, after: $cursor) {
+          pageInfo { hasNextPage endCursor }
+          nodes {
+            id
+            isResolved
+            isOutdated
+            resolvedBy { login }
+            comments(first: 100) { nodes { databaseId } }
+          }
+        }
+      }
+    }
+  }`;
+
+const RESOLVE_THREAD_MUTATION = `
+  mutation($threadId: ID!) {
+    resolveReviewThread(input: { threadId: $threadId }) {
+      thread { id isResolved }
+    }
+  }`;
+
+const UNRESOLVE_THREAD_MUTATION = `
+  mutation($threadId: ID!) {
+    unresolveReviewThread(input: { threadId: $threadId }) {
+      thread { id isResolved }
+    }
+  }`;
+
+/**
+ * Parse a review comment link such as
+ * https://github.com/{owner}/{repo}/pull/{number}#discussion_r{commentId}
+ */
+export function parseCommentUrl(url: string): {
+  owner: string;
+  repo: string;
+  pullNumber: number;
+  commentId: number;
+} | null {
+  const match = url.match(/^https?:\/\/[^/]+\/([^/]+)\/([^/]+)\/pull\/(\d+)(?:\/[^#]*)?#(?:discussion_)?r(\d+)$/);
+  if (!match) return null;
+
+  return {
+    owner: match[1],
+    repo: match[2],
+    pullNumber: parseInt(match[3]),
+    commentId: parseInt(match[4])
+  };
+}
+
+/**
+ * Extract the pull request number from a comment's pull_request_url
+ */
+export function parsePullNumberFromUrl(url: string): number | null {
+  const match = url?.match(/\/pulls\/(\d+)(?:$|[/?#])/);
+  return match ? parseInt(match[1]) : null;
+}
+
 /**
  * Direct GitHub API client for CodeRabbit MCP server
  * Uses GitHub REST API v4 with Personal Access Token authentication
@@ -24,10 +239,33 @@ export interface GitHubAPIError extends Error {
 export class GitHubClient {
   private token: string;
   private baseUrl: string;
+  private perPage: number;
+  private maxItems: number;
+  private maxRetries: number;
+  private maxWaitMs: number;
+  private rateLimits = new Map<string, RateLimitInfo>();
+  private cache: ResponseCache | null;
 
-  constructor(token?: string, baseUrl: string = 'https://api.github.com') {
+  constructor(token?: string, baseUrl: string = 'https://api.github.com', options: GitHubClientOptions = {}) {
     this.token = token || process.env.GITHUB_PAT || '';
     this.baseUrl = baseUrl;
+    this.perPage = options.perPage ?? parsePositiveInt(process.env.CODERABBIT_PER_PAGE, DEFAULT_PER_PAGE);
+    this.maxItems = options.maxItems ?? parsePositiveInt(process.env.CODERABBIT_MAX_ITEMS, DEFAULT_MAX_ITEMS);
+    this.maxRetries = options.maxRetries ?? parseNonNegativeInt(process.env.CODERABBIT_MAX_RETRIES, DEFAULT_MAX_RETRIES);
+    this.maxWaitMs = options.maxWaitMs ?? parsePositiveInt(process.env.CODERABBIT_MAX_WAIT_MS, DEFAULT_MAX_WAIT_MS);
+
+    if (options.cache !== undefined) {
+      this.cache = options.cache || null;
+    } else if (process.env.CODERABBIT_CACHE === 'off') {
+      this.cache = null;
+    } else {
+      this.cache = new ResponseCache({
+        filePath: process.env.CODERABBIT_CACHE_FILE,
+        maxEntries: process.env.CODERABBIT_CACHE_MAX_ENTRIES
+          ? parsePositiveInt(process.env.CODERABBIT_CACHE_MAX_ENTRIES, 500)
+          : undefined
+      });
+    }
 
     if (!this.token) {
       throw new Error('GITHUB_PAT environment variable is required');
@@ -35,14 +273,20 @@ export class GitHubClient {
   }
 
   /**
-   * Make an authenticated request to the GitHub API
+   * Send an authenticated request to the GitHub API and return the raw response
+   * Accepts either an endpoint relative to the base URL or an absolute URL (e.g. from a Link header)
+   *
+   * Rate-limited responses are retried after `Retry-After` or the rate limit reset, and 5xx or
+   * network failures on GET requests are retried with jittered exponential backoff.
+   * GET requests are revalidated against the response cache with `If-None-Match` / `If-Modified-Since`.
    */
-  private async makeRequest<T>(
+  private async sendRequest(
     endpoint: string,
-    method: 'GET' | 'POST' | 'PUT' | 'DELETE' = 'GET',
+    method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' = 'GET',
     body?: any
-  ): Promise<T> {
-    const url = `${this.baseUrl}${endpoint}`;
+  ): Promise<Response> {
+    const url = endpoint.startsWith('http') ? endpoint : `${this.baseUrl}${endpoint}`;
+    const resource = endpoint.endsWith('/graphql') ? 'graphql' : 'core';
     
     const headers: Record<string, string> = {
       'Authorization': `Bearer ${this.token}`,
@@ -55,49 +299,324 @@ export class GitHubClient {
       headers['Content-Type'] = 'application/json';
     }
 
-    try {
-      const response = await fetch(url, {
-        method,
-        headers,
-        body: body ? JSON.stringify(body) : undefined
-      });
+    const cached = method === 'GET' ? this.cache?.get(url) : undefined;
+    if (cached?.etag) {
+      headers['If-None-Match'] = cached.etag;
+    } else if (cached?.lastModified) {
+      headers['If-Modified-Since'] = cached.lastModified;
+    }
 
-      if (!response.ok) {
-        const errorBody = await response.text();
-        const error = new Error(`GitHub API error: ${response.status} ${response.statusText}`) as GitHubAPIError;
-        error.status = response.status;
-        error.response = errorBody;
-        throw error;
+    for (let attempt = 0; ; attempt++) {
+      await this.waitForRateLimitReset(resource);
+
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method,
+          headers,
+          body: body ? JSON.stringify(body) : undefined
+        });
+      } catch (error) {
+        if (method === 'GET' && attempt < this.maxRetries) {
+          const delay = backoffDelay(attempt);
+          console.warn(`GitHub request failed (${error instanceof Error ? error.message : String(error)}); retrying in ${delay}ms`);
+          await sleep(delay);
+          continue;
+        }
+        if (error instanceof Error) {
+          throw error;
+        }
+        throw new Error(`Network error: ${String(error)}`);
+      }
+
+      this.recordRateLimit(response.headers);
+
+      if (response.status === 304 && cached && this.cache) {
+        this.cache.recordHit(url);
+        return responseFromCache(cached);
       }
 
-      // Handle empty responses (e.g., 204 No Content)
-      if (response.status === 204 || response.headers.get('content-length') === '0') {
-        return {} as T;
+      if (response.ok) {
+        return method === 'GET' ? this.cacheResponse(url, response) : response;
       }
 
-      return await response.json() as T;
-    } catch (error) {
-      if (error instanceof Error) {
-        throw error;
+      const errorBody = await response.text();
+      const rateLimited = isRateLimitResponse(response, errorBody);
+      const delay = this.getRetryDelay(response, method, rateLimited, attempt);
+
+      if (delay !== null) {
+        console.warn(`GitHub API ${response.status} on ${method} ${endpoint}; retrying in ${delay}ms (attempt ${attempt + 1}/${this.maxRetries})`);
+        await sleep(delay);
+        continue;
+      }
+
+      const reset = response.headers.get('x-ratelimit-reset');
+      const resetNote = rateLimited && reset
+        ? ` (rate limit resets at ${new Date(parseInt(reset) * 1000).toISOString()})`
+        : '';
+      const error = new Error(`GitHub API error: ${response.status} ${response.statusText}${resetNote}`) as GitHubAPIError;
+      error.status = response.status;
+      error.response = errorBody;
+      throw error;
+    }
+  }
+
+  /**
+   * Store a successful GET response that carries an ETag or Last-Modified validator
+   */
+  private async cacheResponse(url: string, response: Response): Promise<Response> {
+    if (!this.cache || response.status !== 200) {
+      return response;
+    }
+
+    this.cache.recordMiss(url);
+
+    const etag = response.headers.get('etag') || undefined;
+    const lastModified = response.headers.get('last-modified') || undefined;
+    if (!etag && !lastModified) {
+      return response;
+    }
+
+    const body = await response.text();
+    this.cache.set(url, {
+      etag,
+      lastModified,
+      link: response.headers.get('link') || undefined,
+      body,
+      storedAt: Date.now()
+    });
+
+    return new Response(body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers
+    });
+  }
+
+  /**
+   * Drop cached responses for a pull request (its reviews, comments and issue comments)
+   * and for review comments that belong to it
+   */
+  private invalidatePullRequestCache(owner: string, repo: string, pullNumber: number): void {
+    if (!this.cache) return;
+
+    const repoPath = `/repos/${escapeRegExp(owner)}/${escapeRegExp(repo)}`;
+    const urlPattern = new RegExp(`${repoPath}/(pulls|issues)/${pullNumber}(?=[/?]|$)`, 'i');
+    const bodyPattern = new RegExp(`"pull_request_url":\\s*"[^"]*${repoPath}/pulls/${pullNumber}"`, 'i');
+
+    this.cache.invalidate((url, entry) =>
+      urlPattern.test(url) || (url.includes('/pulls/comments/') && bodyPattern.test(entry.body))
+    );
+  }
+
+  /**
+   * Drop cached responses that contain a review comment (the comment itself and PR comment lists)
+   */
+  private invalidateCommentCache(owner: string, repo: string, commentId: number): void {
+    if (!this.cache) return;
+
+    const marker = `/repos/${owner}/${repo}/pulls/comments/${commentId}`.toLowerCase();
+    this.cache.invalidate((url, entry) =>
+      url.toLowerCase().includes(marker) || entry.body.toLowerCase().includes(`${marker}"`)
+    );
+  }
+
+  /**
+   * Decide how long to wait before retrying a failed response, or null if it should not be retried
+   */
+  private getRetryDelay(
+    response: Response,
+    method: string,
+    rateLimited: boolean,
+    attempt: number
+  ): number | null {
+    if (attempt >= this.maxRetries) {
+      return null;
+    }
+
+    let delay: number;
+    if (rateLimited) {
+      const retryAfter = response.headers.get('retry-after');
+      const remaining = response.headers.get('x-ratelimit-remaining');
+      const reset = response.headers.get('x-ratelimit-reset');
+
+      if (retryAfter) {
+        delay = parseInt(retryAfter) * 1000;
+      } else if (remaining === '0' && reset) {
+        delay = Math.max(parseInt(reset) * 1000 - Date.now(), 0) + 1000;
+      } else {
+        delay = backoffDelay(attempt);
+      }
+    } else if (method === 'GET' && RETRYABLE_SERVER_STATUSES.includes(response.status)) {
+      delay = backoffDelay(attempt);
+    } else {
+      return null;
+    }
+
+    return Number.isFinite(delay) && delay <= this.maxWaitMs ? delay : null;
+  }
+
+  /**
+   * Remember the rate limit budget reported in response headers
+   */
+  private recordRateLimit(headers: Headers): void {
+    const remaining = headers.get('x-ratelimit-remaining');
+    if (remaining === null) return;
+
+    const resource = headers.get('x-ratelimit-resource') || 'core';
+    this.rateLimits.set(resource, {
+      resource,
+      limit: parseInt(headers.get('x-ratelimit-limit') || '0'),
+      remaining: parseInt(remaining),
+      used: parseInt(headers.get('x-ratelimit-used') || '0'),
+      reset: parseInt(headers.get('x-ratelimit-reset') || '0')
+    });
+  }
+
+  /**
+   * Wait for the rate limit to reset if the last response said the budget is exhausted
+   */
+  private async waitForRateLimitReset(resource: string): Promise<void> {
+    const info = this.rateLimits.get(resource);
+    if (!info || info.remaining > 0) return;
+
+    const wait = info.reset * 1000 - Date.now() + 1000;
+    if (wait <= 0) return;
+
+    if (wait > this.maxWaitMs) {
+      throw new Error(
+        `GitHub ${resource} rate limit exhausted; resets at ${new Date(info.reset * 1000).toISOString()}`
+      );
+    }
+
+    console.warn(`GitHub ${resource} rate limit exhausted; waiting ${wait}ms for reset`);
+    await sleep(wait);
+  }
+
+  /**
+   * Make an authenticated request to the GitHub API
+   */
+  private async makeRequest<T>(
+    endpoint: string,
+    method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' = 'GET',
+    body?: any
+  ): Promise<T> {
+    const response = await this.sendRequest(endpoint, method, body);
+
+    // Handle empty responses (e.g., 204 No Content)
+    if (response.status === 204 || response.headers.get('content-length') === '0') {
+      return {} as T;
+    }
+
+    return await response.json() as T;
+  }
+
+  /**
+   * Make an authenticated GET request to a list endpoint, following `Link: rel="next"` headers
+   * until every page is fetched or the max-items cap is reached
+   */
+  private async makePaginatedRequest<T>(
+    endpoint: string,
+    options: PaginationOptions = {}
+  ): Promise<PaginatedResult<T>> {
+    const perPage = Math.min(options.perPage ?? this.perPage, 100);
+    const maxItems = options.maxItems ?? this.maxItems;
+    const separator = endpoint.includes('?') ? '&' : '?';
+
+    const items: T[] = [];
+    let truncated = false;
+    let next: string | null = `${endpoint}${separator}per_page=${perPage}`;
+
+    while (next) {
+      const response = await this.sendRequest(next);
+      const page = await response.json() as T[];
+      items.push(...page);
+      next = parseNextLink(response.headers.get('link'));
+
+      if (items.length >= maxItems) {
+        truncated = items.length > maxItems || next !== null;
+        items.length = Math.min(items.length, maxItems);
+        break;
       }
-      throw new Error(`Network error: ${String(error)}`);
     }
+
+    return { items, truncated };
+  }
+
+  /**
+   * Make an authenticated request to the GitHub GraphQL API
+   * GraphQL reports failures in an `errors` array with a 200 status, so those are surfaced as errors too
+   */
+  private async makeGraphQLRequest<T>(query: string, variables: Record<string, unknown>): Promise<T> {
+    const response = await this.makeRequest<{ data?: T; errors?: Array<{ message: string }> }>(
+      '/graphql',
+      'POST',
+      { query, variables }
+    );
+
+    if (response.errors && response.errors.length > 0) {
+      const error = new Error(`GitHub GraphQL error: ${response.errors.map(e => e.message).join('; ')}`) as GitHubAPIError;
+      error.response = response.errors;
+      throw error;
+    }
+
+    if (!response.data) {
+      throw new Error('GitHub GraphQL error: empty response');
+    }
+
+    return response.data;
   }
 
   /**
    * Get all reviews for a pull request
    */
-  async getPullRequestReviews(owner: string, repo: string, pullNumber: number): Promise<GitHubReview[]> {
+  async getPullRequestReviews(
+    owner: string,
+    repo: string,
+    pullNumber: number,
+    options: PaginationOptions = {}
+  ): Promise<PaginatedResult<GitHubReview>> {
     const endpoint = `/repos/${owner}/${repo}/pulls/${pullNumber}/reviews`;
-    return this.makeRequest<GitHubReview[]>(endpoint);
+    return this.makePaginatedRequest<GitHubReview>(endpoint, options);
   }
 
   /**
    * Get all comments for a pull request (review comments)
    */
-  async getPullRequestComments(owner: string, repo: string, pullNumber: number): Promise<GitHubComment[]> {
+  async getPullRequestComments(
+    owner: string,
+    repo: string,
+    pullNumber: number,
+    options: PaginationOptions = {}
+  ): Promise<PaginatedResult<GitHubComment>> {
     const endpoint = `/repos/${owner}/${repo}/pulls/${pullNumber}/comments`;
-    return this.makeRequest<GitHubComment[]>(endpoint);
+    return this.makePaginatedRequest<GitHubComment>(endpoint, options);
+  }
+
+  /**
+   * Get the commits of a pull request, oldest first (GitHub returns at most 250)
+   */
+  async getPullRequestCommits(
+    owner: string,
+    repo: string,
+    pullNumber: number,
+    options: PaginationOptions = {}
+  ): Promise<PaginatedResult<GitHubPullRequestCommit>> {
+    const endpoint = `/repos/${owner}/${repo}/pulls/${pullNumber}/commits`;
+    return this.makePaginatedRequest<GitHubPullRequestCommit>(endpoint, options);
+  }
+
+  /**
+   * Get the conversation comments of an issue or pull request (not review comments)
+   */
+  async getIssueComments(
+    owner: string,
+    repo: string,
+    issueNumber: number,
+    options: PaginationOptions = {}
+  ): Promise<PaginatedResult<GitHubIssueComment>> {
+    const endpoint = `/repos/${owner}/${repo}/issues/${issueNumber}/comments`;
+    return this.makePaginatedRequest<GitHubIssueComment>(endpoint, options);
   }
 
   /**
@@ -118,28 +637,24 @@ export class GitHubClient {
       state?: 'open' | 'closed' | 'all';
       sort?: 'created' | 'updated' | 'popularity';
       direction?: 'asc' | 'desc';
-      perPage?: number;
-      page?: number;
-    } = {}
-  ): Promise<GitHubPullRequest[]> {
+    } & PaginationOptions = {}
+  ): Promise<PaginatedResult<GitHubPullRequest>> {
     const { 
       state = 'open', 
       sort = 'updated', 
       direction = 'desc', 
-      perPage = 30,
-      page = 1 
+      perPage,
+      maxItems
     } = options;
 
     const params = new URLSearchParams({
       state,
       sort,
-      direction,
-      per_page: perPage.toString(),
-      page: page.toString()
+      direction
     });
 
     const endpoint = `/repos/${owner}/${repo}/pulls?${params}`;
-    return this.makeRequest<GitHubPullRequest[]>(endpoint);
+    return this.makePaginatedRequest<GitHubPullRequest>(endpoint, { perPage, maxItems });
   }
 
   /**
@@ -150,9 +665,11 @@ export class GitHubClient {
     repo: string, 
     issueNumber: number, 
     body: string
-  ): Promise<any> {
+  ): Promise<GitHubIssueComment> {
     const endpoint = `/repos/${owner}/${repo}/issues/${issueNumber}/comments`;
-    return this.makeRequest(endpoint, 'POST', { body });
+    const result = await this.makeRequest<GitHubIssueComment>(endpoint, 'POST', { body });
+    this.invalidatePullRequestCache(owner, repo, issueNumber);
+    return result;
   }
 
   /**
@@ -163,6 +680,123 @@ export class GitHubClient {
     return this.makeRequest<GitHubComment>(endpoint);
   }
 
+  /**
+   * Reply inside a pull request review comment thread
+   */
+  async replyToReviewComment(
+    owner: string,
+    repo: string,
+    pullNumber: number,
+    commentId: number,
+    body: string
+  ): Promise<GitHubComment> {
+    const endpoint = `/repos/${owner}/${repo}/pulls/${pullNumber}/comments/${commentId}/replies`;
+    const result = await this.makeRequest<GitHubComment>(endpoint, 'POST', { body });
+    this.invalidatePullRequestCache(owner, repo, pullNumber);
+    return result;
+  }
+
+  /**
+   * Get the decoded UTF-8 content of a file at a given ref
+   */
+  async getFileContent(owner: string, repo: string, path: string, ref: string): Promise<string> {
+    const encodedPath = path.split('/').map(encodeURIComponent).join('/');
+    const endpoint = `/repos/${owner}/${repo}/contents/${encodedPath}?ref=${encodeURIComponent(ref)}`;
+    const file = await this.makeRequest<{ sha: string; content: string; encoding: string }>(endpoint);
+
+    // Files over 1 MB come back without inline content, so read them through the blobs API
+    if (file.encoding !== 'base64') {
+      const blob = await this.makeRequest<{ content: string; encoding: string }>(
+        `/repos/${owner}/${repo}/git/blobs/${file.sha}`
+      );
+      return Buffer.from(blob.content, 'base64').toString('utf-8');
+    }
+
+    return Buffer.from(file.content, 'base64').toString('utf-8');
+  }
+
+  /**
+   * Get a git commit object
+   */
+  async getGitCommit(
+    owner: string,
+    repo: string,
+    sha: string
+  ): Promise<{ sha: string; tree: { sha: string }; committer: { name: string; date: string } }> {
+    const endpoint = `/repos/${owner}/${repo}/git/commits/${sha}`;
+    return this.makeRequest(endpoint);
+  }
+
+  /**
+   * Get the direct entries of a git tree
+   */
+  async getGitTree(
+    owner: string,
+    repo: string,
+    treeSha: string
+  ): Promise<{ sha: string; tree: GitTreeEntry[]; truncated: boolean }> {
+    const endpoint = `/repos/${owner}/${repo}/git/trees/${treeSha}`;
+    return this.makeRequest(endpoint);
+  }
+
+  /**
+   * Create a git blob from UTF-8 content
+   */
+  async createBlob(owner: string, repo: string, content: string): Promise<{ sha: string }> {
+    const endpoint = `/repos/${owner}/${repo}/git/blobs`;
+    return this.makeRequest(endpoint, 'POST', { content, encoding: 'utf-8' });
+  }
+
+  /**
+   * Create a git tree on top of a base tree
+   */
+  async createTree(
+    owner: string,
+    repo: string,
+    baseTree: string,
+    entries: GitTreeEntry[]
+  ): Promise<{ sha: string }> {
+    const endpoint = `/repos/${owner}/${repo}/git/trees`;
+    return this.makeRequest(endpoint, 'POST', { base_tree: baseTree, tree: entries });
+  }
+
+  /**
+   * Create a git commit object
+   */
+  async createCommit(
+    owner: string,
+    repo: string,
+    message: string,
+    tree: string,
+    parents: string[]
+  ): Promise<{ sha: string; html_url: string }> {
+    const endpoint = `/repos/${owner}/${repo}/git/commits`;
+    return this.makeRequest(endpoint, 'POST', { message, tree, parents });
+  }
+
+  /**
+   * Get the commit SHA a branch points to
+   */
+  async getBranchHead(owner: string, repo: string, branch: string): Promise<string> {
+    const endpoint = `/repos/${owner}/${repo}/git/ref/heads/${branch.split('/').map(encodeURIComponent).join('/')}`;
+    const ref = await this.makeRequest<{ object: { sha: string } }>(endpoint);
+    return ref.object.sha;
+  }
+
+  /**
+   * Move a branch to a new commit; without `force` GitHub rejects anything but a fast-forward
+   */
+  async updateBranchHead(
+    owner: string,
+    repo: string,
+    branch: string,
+    sha: string,
+    force: boolean = false
+  ): Promise<{ object: { sha: string } }> {
+    const endpoint = `/repos/${owner}/${repo}/git/refs/heads/${branch.split('/').map(encodeURIComponent).join('/')}`;
+    return this.makeRequest(endpoint, 'PATCH', { sha, force });
+  }
+
   /**
    * React to a comment (add reaction)
    */
@@ -173,62 +807,179 @@ export class GitHubClient {
     reaction: '+1' | '-1' | 'laugh' | 'confused' | 'heart' | 'hooray' | 'rocket' | 'eyes'
   ): Promise<any> {
     const endpoint = `/repos/${owner}/${repo}/pulls/comments/${commentId}/reactions`;
-    return this.makeRequest(endpoint, 'POST', { content: reaction });
+    const result = await this.makeRequest(endpoint, 'POST', { content: reaction });
+    this.invalidateCommentCache(owner, repo, commentId);
+    return result;
+  }
+
+  /**
+   * Get all review threads for a pull request via GraphQL
+   */
+  async getReviewThreads(owner: string, repo: string, pullNumber: number): Promise<GitHubReviewThread[]> {
+    const threads: GitHubReviewThread[] = [];
+    let cursor: string | null = null;
+
+    do {
+      const data: {
+        repository: {
+          pullRequest: {
+            reviewThreads: {
+              pageInfo: { hasNextPage: boolean; endCursor: string | null };
+              nodes: GitHubReviewThread[];
+            };
+          } | null;
+        } | null;
+      } = await this.makeGraphQLRequest(REVIEW_THREADS_QUERY, { owner, repo, pullNumber, cursor });
+
+      const reviewThreads = data.repository?.pullRequest?.reviewThreads;
+      if (!reviewThreads) {
+        throw new Error(`Pull request #${pullNumber} not found in ${owner}/${repo}`);
+      }
+
+      threads.push(...reviewThreads.nodes);
+      cursor = reviewThreads.pageInfo.hasNextPage ? reviewThreads.pageInfo.endCursor : null;
+    } while (cursor);
+
+    return threads;
+  }
+
+  /**
+   * Find the review thread that contains a given REST comment ID
+   */
+  async findReviewThreadByCommentId(
+    owner: string,
+    repo: string,
+    pullNumber: number,
+    commentId: number
+  ): Promise<GitHubReviewThread | null> {
+    const threads = await this.getReviewThreads(owner, repo, pullNumber);
+    return threads.find(thread =>
+      thread.comments.nodes.some(comment => comment.databaseId === commentId)
+    ) || null;
   }
 
   /**
    * Resolve a pull request review conversation
-   * This marks the conversation thread as resolved
-   * 
-   * Note: GitHub's REST API doesn't support direct conversation resolution.
-   * This method uses a fallback approach with reactions to indicate resolution.
+   * This marks the conversation thread as resolved using the GraphQL `resolveReviewThread` mutation.
+   * If the thread cannot be resolved (e.g. missing permissions), a 👍 reaction is added instead
+   * and the returned `method` is 'reaction'.
    */
   async resolveReviewConversation(
     owner: string,
     repo: string,
-    commentId: number
-  ): Promise<any> {
-    const endpoint = `/repos/${owner}/${repo}/pulls/comments/${commentId}`;
-    
-    // First get the comment to find the conversation ID
-    const comment = await this.makeRequest<GitHubComment>(endpoint);
-    
+    comment: GitHubComment
+  ): Promise<ReviewThreadResolution> {
+    return this.setReviewThreadResolved(owner, repo, comment, true);
+  }
+
+  /**
+   * Unresolve a pull request review conversation
+   * Uses the GraphQL `unresolveReviewThread` mutation, falling back to an 👀 reaction
+   * when the thread cannot be reopened.
+   */
+  async unresolveReviewConversation(
+    owner: string,
+    repo: string,
+    comment: GitHubComment
+  ): Promise<ReviewThreadResolution> {
+    return this.setReviewThreadResolved(owner, repo, comment, false);
+  }
+
+  private async setReviewThreadResolved(
+    owner: string,
+    repo: string,
+    comment: GitHubComment,
+    resolved: boolean
+  ): Promise<ReviewThreadResolution> {
+    const commentId = comment.id;
     if (!comment.pull_request_review_id) {
       throw new Error('Comment is not associated with a review conversation');
     }
 
-    // GitHub API doesn't support direct conversation resolution via REST API
-    // Fallback: Add a reaction to indicate resolution
-    console.warn('GitHub conversation resolution API not available; using reaction fallback');
-    return await this.addReactionToComment(owner, repo, commentId, '+1');
+    let thread: GitHubReviewThread | null = null;
+    try {
+      const pullNumber = parsePullNumberFromUrl(comment.pull_request_url);
+      if (!pullNumber) {
+        throw new Error(`Cannot determine pull request for comment ${commentId}`);
+      }
+
+      thread = await this.findReviewThreadByCommentId(owner, repo, pullNumber, commentId);
+      if (!thread) {
+        throw new Error(`No review thread found for comment ${commentId}`);
+      }
+
+      const data = resolved
+        ? (await this.makeGraphQLRequest<{ resolveReviewThread: { thread: { id: string; isResolved: boolean } } }>(
+            RESOLVE_THREAD_MUTATION, { threadId: thread.id }
+          )).resolveReviewThread
+        : (await this.makeGraphQLRequest<{ unresolveReviewThread: { thread: { id: string; isResolved: boolean } } }>(
+            UNRESOLVE_THREAD_MUTATION, { threadId: thread.id }
+          )).unresolveReviewThread;
+
+      return {
+        method: 'graphql',
+        resolved: data.thread.isResolved,
+        thread_id: data.thread.id
+      };
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      console.warn(`GitHub thread ${resolved ? 'resolution' : 'unresolution'} failed (${reason}); using reaction fallback`);
+
+      await this.addReactionToComment(owner, repo, commentId, resolved ? '+1' : 'eyes');
+      // The thread was not changed; report the state it was last read in, if any
+      return {
+        method: 'reaction',
+        resolved: thread?.isResolved,
+        thread_id: thread?.id,
+        fallback_reason: reason
+      };
+    }
   }
 
   /**
-   * Unresolve a pull request review conversation
-   * 
-   * Note: GitHub's REST API doesn't support direct conversation resolution.
-   * This method uses a fallback approach with reactions to indicate unresolving.
+   * Look up a review comment by ID with a single request and derive its pull request number
+   *
+   * If the direct lookup fails with 404 and a pull request number is known, that PR's
+   * comments are searched instead. Scanning recent PRs only happens when `scanRecentPRs` is set.
    */
-  async unresolveReviewConversation(
+  async findCommentById(
     owner: string,
     repo: string,
-    commentId: number
-  ): Promise<any> {
-    // GitHub API doesn't support direct conversation resolution via REST API
-    // For unresolving, we can only indicate this through external means
-    console.warn('GitHub conversation resolution API not available for unresolving');
-    
-    // Fallback: Add a reaction to indicate the conversation needs attention
+    commentId: number,
+    options: { pullNumber?: number; scanRecentPRs?: boolean } = {}
+  ): Promise<{ comment: GitHubComment; pullNumber: number } | null> {
     try {
-      return await this.addReactionToComment(owner, repo, commentId, 'eyes');
+      const comment = await this.getComment(owner, repo, commentId);
+      const pullNumber = parsePullNumberFromUrl(comment.pull_request_url) ?? options.pullNumber;
+
+      if (!pullNumber) {
+        throw new Error(`Cannot determine pull request for comment ${commentId}`);
+      }
+
+      return { comment, pullNumber };
     } catch (error) {
-      throw new Error('Cannot unresolve conversation: GitHub API does not support this operation via REST API');
+      if ((error as GitHubAPIError).status !== 404) {
+        throw error;
+      }
     }
+
+    if (options.pullNumber) {
+      const { items: comments } = await this.getPullRequestComments(owner, repo, options.pullNumber);
+      const comment = comments.find(c => c.id === commentId);
+      return comment ? { comment, pullNumber: options.pullNumber } : null;
+    }
+
+    if (options.scanRecentPRs) {
+      const result = await this.findCommentInRecentPRs(owner, repo, commentId);
+      return result ? { comment: result.comment, pullNumber: result.pr.number } : null;
+    }
+
+    return null;
   }
 
   /**
    * Search for a comment across multiple pull requests
-   * This is a helper method since GitHub doesn't provide direct comment search
+   * This is a slow fallback (one request per PR) for when the comment cannot be fetched directly
    */
   async findCommentInRecentPRs(
     owner: string, 
@@ -238,17 +989,17 @@ export class GitHubClient {
   ): Promise<{ comment: GitHubComment; pr: GitHubPullRequest } | null> {
     try {
       // Get recent PRs
-      const prs = await this.listPullRequests(owner, repo, {
+      const { items: prs } = await this.listPullRequests(owner, repo, {
         state: 'all',
         sort: 'updated',
         direction: 'desc',
-        perPage: maxPRs
+        maxItems: maxPRs
       });
 
       // Search through each PR for the comment
       for (const pr of prs) {
         try {
-          const comments = await this.getPullRequestComments(owner, repo, pr.number);
+          const { items: comments } = await this.getPullRequestComments(owner, repo, pr.number);
           const targetComment = comments.find(comment => comment.id === commentId);
           
           if (targetComment) {
@@ -267,6 +1018,28 @@ export class GitHubClient {
     }
   }
 
+  /**
+   * Get the current rate limit budget for every resource
+   * Calls to /rate_limit do not count against the primary rate limit
+   */
+  async getRateLimitStatus(): Promise<RateLimitInfo[]> {
+    const response = await this.makeRequest<{
+      resources: Record<string, { limit: number; remaining: number; used: number; reset: number }>;
+    }>('/rate_limit');
+
+    return Object.entries(response.resources).map(([resource, info]) => {
+      const rateLimit: RateLimitInfo = {
+        resource,
+        limit: info.limit,
+        remaining: info.remaining,
+        used: info.used,
+        reset: info.reset
+      };
+      this.rateLimits.set(resource, rateLimit);
+      return rateLimit;
+    });
+  }
+
   /**
    * Check if the token has required permissions
    */
@@ -0,0 +1,275 @@
+import { createServer as createHttpServer, IncomingMessage, ServerResponse, Server as HttpServer } from 'http';
+import { randomUUID, timingSafeEqual } from 'crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+export interface HttpServerOptions {
+  port: number;
+  host: string;
+  /** When set, every MCP request must carry `Authorization: Bearer <authToken>` */
+  authToken?: string;
+  /** Close sessions that have had no request for this long (default: 30 minutes) */
+  sessionIdleTimeoutMs?: number;
+}
+
+export interface McpHttpServer {
+  httpServer: HttpServer;
+  /** Close every open session and stop listening */
+  close(): Promise<void>;
+}
+
+interface Session {
+  server: Server;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  /** When the last request for this session started or finished */
+  lastActivity: number;
+  /** Requests (including open SSE streams) still being served */
+  openRequests: number;
+}
+
+const MCP_PATH = '/mcp';
+const SSE_PATH = '/sse';
+const SSE_MESSAGES_PATH = '/messages';
+const HEALTH_PATH = '/health';
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+const IDLE_SWEEP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Serve MCP over HTTP
+ *
+ * - `/mcp`: Streamable HTTP transport (POST, GET and DELETE with an `Mcp-Session-Id` header)
+ * - `/sse` + `/messages`: the older HTTP+SSE transport for clients that don't support Streamable HTTP yet
+ * - `/health`: unauthenticated liveness check
+ *
+ * Every session gets its own MCP server instance from `createMcpServer`. Binding a
+ * non-loopback host requires `authToken`, since every session acts with the server's GitHub token.
+ * Clients that disconnect without a DELETE leave their session behind, so sessions with no open
+ * request for `sessionIdleTimeoutMs` are closed along with their MCP server.
+ */
+export async function startHttpServer(
+  createMcpServer: () => Server,
+  options: HttpServerOptions
+): Promise<McpHttpServer> {
+  if (!options.authToken && !isLoopbackHost(options.host)) {
+    throw new Error(
+      `Refusing to listen on ${options.host} without CODERABBIT_HTTP_TOKEN; set a token or bind 127.0.0.1`
+    );
+  }
+
+  const sessions = new Map<string, Session>();
+  const idleTimeoutMs = options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+
+  const track = (session: Session, res: ServerResponse): void => {
+    session.openRequests++;
+    session.lastActivity = Date.now();
+    res.on('close', () => {
+      session.openRequests--;
+      session.lastActivity = Date.now();
+    });
+  };
+
+  const closeIdleSessions = async (): Promise<void> => {
+    const cutoff = Date.now() - idleTimeoutMs;
+    for (const [id, session] of sessions) {
+      if (session.openRequests === 0 && session.lastActivity <= cutoff) {
+        sessions.delete(id);
+        await session.server.close().catch(() => undefined);
+      }
+    }
+  };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+
+    if (url.pathname === HEALTH_PATH && req.method === 'GET') {
+      sendJson(res, 200, { status: 'ok', sessions: sessions.size });
+      return;
+    }
+
+    if (options.authToken && !isAuthorized(req, options.authToken)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      sendJsonRpcError(res, 401, 'Unauthorized');
+      return;
+    }
+
+    if (url.pathname === MCP_PATH) {
+      await handleStreamableRequest(req, res);
+    } else if (url.pathname === SSE_PATH && req.method === 'GET') {
+      await handleSseConnect(res);
+    } else if (url.pathname === SSE_MESSAGES_PATH && req.method === 'POST') {
+      await handleSseMessage(req, res, url.searchParams.get('sessionId'));
+    } else {
+      sendJson(res, 404, { error: `No route for ${req.method} ${url.pathname}` });
+    }
+  };
+
+  const handleStreamableRequest = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const sessionId = headerValue(req, 'mcp-session-id');
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+
+    if (sessionId) {
+      const session = sessions.get(sessionId);
+      if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+        sendJsonRpcError(res, 404, `Unknown session ${sessionId}`);
+        return;
+      }
+      track(session, res);
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, 'Missing Mcp-Session-Id header; send an initialize request first');
+      return;
+    }
+
+    const server = createMcpServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: id => {
+        const session: Session = { server, transport, lastActivity: Date.now(), openRequests: 0 };
+        sessions.set(id, session);
+        track(session, res);
+      }
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        sessions.delete(transport.sessionId);
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const handleSseConnect = async (res: ServerResponse): Promise<void> => {
+    const server = createMcpServer();
+    const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+    const session: Session = { server, transport, lastActivity: Date.now(), openRequests: 0 };
+    sessions.set(transport.sessionId, session);
+    track(session, res);
+
+    res.on('close', () => {
+      sessions.delete(transport.sessionId);
+      void server.close().catch(() => undefined);
+    });
+
+    await server.connect(transport);
+  };
+
+  const handleSseMessage = async (
+    req: IncomingMessage,
+    res: ServerResponse,
+    sessionId: string | null
+  ): Promise<void> => {
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      sendJsonRpcError(res, 404, `Unknown session ${sessionId ?? ''}`.trim());
+      return;
+    }
+    track(session, res);
+    await session.transport.handlePostMessage(req, res, await readJsonBody(req));
+  };
+
+  const httpServer = createHttpServer((req, res) => {
+    handle(req, res).catch(error => {
+      console.error('[HTTP Error]', error);
+      if (!res.headersSent) {
+        const status = error instanceof RequestBodyError ? error.status : 500;
+        sendJsonRpcError(res, status, error instanceof Error ? error.message : String(error));
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  await new Promise<void>((resolvePromise, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolvePromise();
+    });
+  });
+
+  const idleSweep = setInterval(() => void closeIdleSessions(), Math.min(IDLE_SWEEP_INTERVAL_MS, idleTimeoutMs));
+  idleSweep.unref();
+
+  return {
+    httpServer,
+    close: async () => {
+      clearInterval(idleSweep);
+      for (const { server } of sessions.values()) {
+        await server.close().catch(() => undefined);
+      }
+      sessions.clear();
+      await new Promise<void>(resolvePromise => httpServer.close(() => resolvePromise()));
+    }
+  };
+}
+
+class RequestBodyError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'RequestBodyError';
+  }
+}
+
+function isLoopbackHost(host: string): boolean {
+  const normalized = host.replace(/^\[|\]$/g, '').toLowerCase();
+  return normalized === 'localhost' || normalized === '::1' || /^127(\.\d{1,3}){3}$/.test(normalized);
+}
+
+function headerValue(req: IncomingMessage, name: string): string | undefined {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Compare the bearer token in constant time
+ */
+function isAuthorized(req: IncomingMessage, authToken: string): boolean {
+  const match = headerValue(req, 'authorization')?.match(/^Bearer\s+(.+)$/i);
+  if (!match) return false;
+
+  const provided = Buffer.from(match[1].trim());
+  const expected = Buffer.from(authToken);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new RequestBodyError(`Request body exceeds ${MAX_BODY_BYTES} bytes`, 413);
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  const text = Buffer.concat(chunks).toString('utf-8');
+  if (!text) return undefined;
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new RequestBodyError('Request body is not valid JSON', 400);
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string): void {
+  sendJson(res, status, {
+    jsonrpc: '2.0',
+    error: { code: -32000, message },
+    id: null
+  });
+}
@@ -1,11 +1,57 @@
 #!/usr/bin/env node
 
-import { CodeRabbitMCPServer } from "./server.js";
+import { CodeRabbitMCPServer, RunOptions } from "./server.js";
+import { isCliInvocation, runCli } from "./cli.js";
+
+/**
+ * Read `--name value` or `--name=value` from the command line
+ */
+function readOption(args: string[], name: string): string | undefined {
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === `--${name}`) {
+      return args[i + 1];
+    }
+    if (args[i].startsWith(`--${name}=`)) {
+      return args[i].slice(name.length + 3);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Parse transport options: `--transport stdio|http`, `--port`, `--host` (or `MCP_TRANSPORT`, `PORT`, `MCP_HOST`)
+ */
+function parseRunOptions(args: string[]): RunOptions {
+  const transport = readOption(args, "transport") ?? process.env.MCP_TRANSPORT ?? "stdio";
+  if (transport !== "stdio" && transport !== "http") {
+    throw new Error(`Unknown transport "${transport}" (expected "stdio" or "http")`);
+  }
+
+  const portValue = readOption(args, "port") ?? process.env.PORT;
+  const port = portValue !== undefined ? parseInt(portValue, 10) : undefined;
+  if (port !== undefined && (isNaN(port) || port < 0 || port > 65535)) {
+    throw new Error(`Invalid port "${portValue}"`);
+  }
+
+  return {
+    transport,
+    port,
+    host: readOption(args, "host") ?? process.env.MCP_HOST,
+    authToken: process.env.CODERABBIT_HTTP_TOKEN || undefined
+  };
+}
 
 /**
  * Main entry point for the CodeRabbit MCP Server
  */
 async function main() {
+  const args = process.argv.slice(2);
+
+  // Subcommands, --help and --version run without starting the server
+  if (isCliInvocation(args)) {
+    process.exit(await runCli(args));
+  }
+
   // Ensure GITHUB_PAT is set
   if (!process.env.GITHUB_PAT) {
     console.error("❌ Error: GITHUB_PAT environment variable is required");
@@ -14,8 +60,9 @@ async function main() {
     process.exit(1);
   }
 
+  const options = parseRunOptions(args);
   const server = new CodeRabbitMCPServer();
-  await server.run();
+  await server.run(options);
 }
 
 // Handle unhandled promise rejections
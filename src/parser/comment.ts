@@ -0,0 +1,131 @@
+import { CodeRabbitSeverity, CommentHeader, ParsedCommentBody } from './types.js';
+import {
+  parseDetailsSections,
+  removeDetails,
+  findSection,
+  extractCodeBlocks,
+  removeCodeBlocks,
+  stripTags,
+  normalizeEmoji
+} from './markdown.js';
+
+/**
+ * Category markers CodeRabbit uses in comment headers, checked in priority order
+ */
+const CATEGORY_MARKERS: Array<{ marker: string; severity: CodeRabbitSeverity; category: string }> = [
+  { marker: '🔒 Security', severity: 'error', category: 'Security' },
+  { marker: '⚠️ Potential issue', severity: 'warning', category: 'Potential Issue' },
+  { marker: '🛠️ Refactor suggestion', severity: 'suggestion', category: 'Refactor Suggestion' },
+  { marker: '🧹 Nitpick', severity: 'info', category: 'Nitpick' },
+  { marker: '💡 Verification agent', severity: 'info', category: 'Verification' }
+];
+
+/**
+ * Impact labels from newer CodeRabbit headers (`_⚠️ Potential issue_ | _🟠 Major_`) override the category severity
+ */
+const IMPACT_MARKERS: Array<{ marker: string; severity: CodeRabbitSeverity }> = [
+  { marker: '🔴 Critical', severity: 'error' },
+  { marker: '🟠 Major', severity: 'warning' },
+  { marker: '🟡 Minor', severity: 'suggestion' },
+  { marker: '🔵 Trivial', severity: 'info' }
+];
+
+const MAX_DESCRIPTION_LINES = 3;
+
+/**
+ * Parse the italic label line at the top of a comment, e.g. `_⚠️ Potential issue_ | _🔴 Critical_`
+ */
+export function parseHeader(text: string): CommentHeader {
+  const firstLine = text.split('\n').map(line => line.trim()).find(line => line.length > 0) || '';
+  if (!/^_[^_].*_$/.test(firstLine)) {
+    return { labels: [] };
+  }
+
+  return {
+    labels: firstLine
+      .split('|')
+      .map(label => label.trim().replace(/^_+|_+$/g, '').trim())
+      .filter(label => label.length > 0)
+  };
+}
+
+/**
+ * Determine severity and category from header labels, falling back to markers anywhere in the text
+ */
+export function detectSeverity(
+  header: CommentHeader,
+  text: string
+): { severity: CodeRabbitSeverity; category: string } {
+  const haystack = normalizeEmoji(header.labels.length > 0 ? header.labels.join(' | ') : text);
+
+  let severity: CodeRabbitSeverity = 'info';
+  let category = 'General';
+
+  const categoryMarker = CATEGORY_MARKERS.find(({ marker }) => haystack.includes(normalizeEmoji(marker)));
+  if (categoryMarker) {
+    severity = categoryMarker.severity;
+    category = categoryMarker.category;
+  }
+
+  const impactMarker = IMPACT_MARKERS.find(({ marker }) => haystack.includes(normalizeEmoji(marker)));
+  if (impactMarker && category !== 'Security') {
+    severity = impactMarker.severity;
+  }
+
+  return { severity, category };
+}
+
+/**
+ * Parse a CodeRabbit finding body into its header, description, code blocks, suggestion and AI prompt
+ */
+export function parseCommentBody(body: string): ParsedCommentBody {
+  const sections = parseDetailsSections(body);
+  const ownText = removeCodeBlocks(removeDetails(body));
+  const codeBlocks = extractCodeBlocks(body);
+
+  const header = parseHeader(ownText);
+  const { severity, category } = detectSeverity(header, ownText);
+
+  const proseLines = ownText
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line =>
+      line.length > 0 &&
+      !/^_[^_].*_$/.test(line) &&
+      !line.startsWith('<') &&
+      !line.startsWith('>') &&
+      !/^-{3,}$/.test(line)
+    );
+
+  const titleMatch = proseLines[0]?.match(/^\*\*(.+?)\*\*$/);
+  const title = titleMatch ? titleMatch[1].trim() : undefined;
+
+  const description = stripTags(proseLines.slice(0, MAX_DESCRIPTION_LINES).join(' '))
+    .replace(/\*\*/g, '')
+    .trim() || 'CodeRabbit suggestion';
+
+  const committableSection = findSection(sections, '📝 Committable suggestion');
+  const committableBlock = committableSection
+    ? extractCodeBlocks(committableSection.content).find(block => block.language === 'suggestion')
+    : undefined;
+
+  // GitHub suggestion blocks posted directly in the comment are committable as well
+  const suggestionBlocks = codeBlocks.filter(block => block.language === 'suggestion');
+
+  const promptSection = findSection(sections, '🤖 Prompt for AI Agents');
+  const promptBlock = promptSection ? extractCodeBlocks(promptSection.content)[0] : undefined;
+
+  return {
+    header,
+    severity,
+    category,
+    title,
+    description,
+    suggestion_blocks: suggestionBlocks.map(block => block.code),
+    diff_blocks: codeBlocks.filter(block => block.language === 'diff').map(block => block.code),
+    code_blocks: codeBlocks,
+    committable_suggestion: (committableBlock ?? suggestionBlocks[0])?.code,
+    ai_prompt: promptBlock?.code.trim(),
+    sections
+  };
+}
@@ -0,0 +1,5 @@
+export * from './types.js';
+export { parseCommentBody, parseHeader, detectSeverity } from './comment.js';
+export { parseReviewBody, toParsedCodeRabbitContent, withReviewItemIds, parseReviewItemId } from './review.js';
+export { parseDetailsSections, findSection, extractCodeBlocks } from './markdown.js';
+export { parseWalkthrough, isWalkthroughComment, parseReviewStatus } from './walkthrough.js';
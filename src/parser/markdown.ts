@@ -0,0 +1,160 @@
+import { CodeBlock, DetailsSection } from './types.js';
+
+const DETAILS_TAG = /<details[^>]*>|<\/details>/gi;
+
+/**
+ * Parse the nested `<details>` blocks of a markdown document into a tree
+ */
+export function parseDetailsSections(markdown: string): DetailsSection[] {
+  const roots: DetailsSection[] = [];
+  const stack: Array<{ contentStart: number; children: DetailsSection[] }> = [];
+
+  for (const match of markdown.matchAll(DETAILS_TAG)) {
+    if (!match[0].startsWith('</')) {
+      stack.push({ contentStart: match.index! + match[0].length, children: [] });
+      continue;
+    }
+
+    const frame = stack.pop();
+    if (!frame) continue;
+
+    const section = buildSection(markdown.slice(frame.contentStart, match.index), frame.children);
+    (stack.length > 0 ? stack[stack.length - 1].children : roots).push(section);
+  }
+
+  return roots;
+}
+
+function buildSection(inner: string, children: DetailsSection[]): DetailsSection {
+  const summaryMatch = inner.match(/^\s*<summary>([\s\S]*?)<\/summary>/);
+  const summary = summaryMatch ? stripTags(summaryMatch[1]).trim() : '';
+  let content = summaryMatch ? inner.slice(summaryMatch[0].length) : inner;
+
+  content = content.trim()
+    .replace(/^<blockquote>/, '')
+    .replace(/<\/blockquote>$/, '')
+    .trim();
+
+  return { summary, content, children };
+}
+
+/**
+ * Remove every top-level `<details>` block, leaving only the document's own text
+ */
+export function removeDetails(markdown: string): string {
+  let result = '';
+  let depth = 0;
+  let lastIndex = 0;
+
+  for (const match of markdown.matchAll(DETAILS_TAG)) {
+    const isClose = match[0].startsWith('</');
+    if (!isClose) {
+      if (depth === 0) {
+        result += markdown.slice(lastIndex, match.index);
+      }
+      depth++;
+    } else if (depth > 0) {
+      depth--;
+      if (depth === 0) {
+        lastIndex = match.index! + match[0].length;
+      }
+    }
+  }
+
+  return depth === 0 ? result + markdown.slice(lastIndex) : result;
+}
+
+/**
+ * Depth-first search for the first section whose summary contains the marker
+ */
+export function findSection(sections: DetailsSection[], marker: string): DetailsSection | undefined {
+  const normalizedMarker = normalizeEmoji(marker);
+  for (const section of sections) {
+    if (normalizeEmoji(section.summary).includes(normalizedMarker)) {
+      return section;
+    }
+    const nested = findSection(section.children, marker);
+    if (nested) {
+      return nested;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Extract fenced code blocks (``` or ~~~) with their info-string language
+ */
+export function extractCodeBlocks(markdown: string): CodeBlock[] {
+  const blocks: CodeBlock[] = [];
+  const lines = markdown.split('\n');
+  let fence: string | null = null;
+  let language = '';
+  let buffer: string[] = [];
+
+  for (const line of lines) {
+    if (fence === null) {
+      const open = line.match(/^\s*(`{3,}|~{3,})\s*([\w+#.-]*)/);
+      if (open) {
+        fence = open[1];
+        language = open[2].toLowerCase();
+        buffer = [];
+      }
+      continue;
+    }
+
+    if (line.trim().startsWith(fence) && line.trim().replace(/[`~]/g, '') === '') {
+      blocks.push({ language, code: buffer.join('\n') });
+      fence = null;
+      continue;
+    }
+
+    buffer.push(line);
+  }
+
+  return blocks;
+}
+
+/**
+ * Remove fenced code blocks from markdown
+ */
+export function removeCodeBlocks(markdown: string): string {
+  const kept: string[] = [];
+  let fence: string | null = null;
+
+  for (const line of markdown.split('\n')) {
+    if (fence === null) {
+      const open = line.match(/^\s*(`{3,}|~{3,})/);
+      if (open) {
+        fence = open[1];
+        continue;
+      }
+      kept.push(line);
+    } else if (line.trim().startsWith(fence) && line.trim().replace(/[`~]/g, '') === '') {
+      fence = null;
+    }
+  }
+
+  return kept.join('\n');
+}
+
+/**
+ * Strip HTML tags and comments
+ */
+export function stripTags(text: string): string {
+  return text.replace(/<!--[\s\S]*?-->/g, '').replace(/<[^>]+>/g, '');
+}
+
+/**
+ * Drop emoji variation selectors so `🛠️` and `🛠` compare equal
+ */
+export function normalizeEmoji(text: string): string {
+  return text.replace(/\uFE0F/g, '');
+}
+
+/**
+ * Parse a `(N)` count from a section summary such as `🧹 Nitpick comments (4)`
+ */
+export function parseSummaryCount(summary: string): number {
+  const match = summary.match(/\((\d+)\)\s*$/);
+  return match ? parseInt(match[1]) : 0;
+}
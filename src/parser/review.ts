@@ -0,0 +1,182 @@
+import { createHash } from 'crypto';
+import { ParsedCodeRabbitContent } from '../types.js';
+import { DetailsSection, ParsedReviewBody, ReviewBodyItem, IdentifiedReviewBodyItem, ReviewSectionKind } from './types.js';
+import { parseCommentBody } from './comment.js';
+import { parseDetailsSections, findSection, parseSummaryCount } from './markdown.js';
+
+/**
+ * Review body sections that group findings by file
+ */
+const ITEM_SECTIONS: Array<{ marker: string; kind: ReviewSectionKind; category: string }> = [
+  { marker: '🧹 Nitpick comments', kind: 'nitpick', category: 'Nitpick' },
+  { marker: '♻️ Duplicate comments', kind: 'duplicate', category: 'Duplicate' },
+  { marker: 'Outside diff range comments', kind: 'outside_diff', category: 'Outside Diff Range' },
+  { marker: '🔇 Additional comments', kind: 'additional', category: 'Additional' }
+];
+
+const ITEM_START = /^`(\d+)(?:-(\d+))?`:\s*(.*)$/gm;
+
+/**
+ * Split a file section into its findings; each one starts with a line like "`45-52`: **Title**"
+ */
+function parseFileSection(
+  fileSection: DetailsSection,
+  kind: ReviewSectionKind,
+  sectionCategory: string
+): ReviewBodyItem[] {
+  const filePath = fileSection.summary.replace(/\s*\(\d+\)\s*$/, '').replace(/`/g, '').trim();
+  const starts = Array.from(fileSection.content.matchAll(ITEM_START));
+
+  return starts.map((match, index) => {
+    const end = index + 1 < starts.length ? starts[index + 1].index! : fileSection.content.length;
+    const body = fileSection.content
+      .slice(match.index! + match[0].length - match[3].length, end)
+      .replace(/\n-{3,}\s*$/, '')
+      .trim();
+
+    const parsed = parseCommentBody(body);
+    const start = parseInt(match[1]);
+
+    return {
+      ...parsed,
+      category: parsed.category === 'General' ? sectionCategory : parsed.category,
+      kind,
+      file_path: filePath,
+      line_range: {
+        start,
+        end: match[2] ? parseInt(match[2]) : start
+      },
+      body
+    };
+  });
+}
+
+/**
+ * Parse a CodeRabbit review body into counts, review metadata and the findings embedded in it
+ */
+export function parseReviewBody(body: string): ParsedReviewBody {
+  const sections = parseDetailsSections(body);
+
+  const actionableMatch = body.match(/\*\*Actionable comments posted: (\d+)\*\*/);
+
+  const configMatch = body.match(/\*\*Configuration used:\s*(.+?)\*\*|\*\*Configuration used\*\*:\s*(.+)/);
+  const profileMatch = body.match(/\*\*Review profile:\s*(.+?)\*\*|\*\*Review profile\*\*:\s*(.+)/);
+
+  const filesSection = findSection(sections, '📒 Files selected for processing');
+  const filesReviewed: string[] = [];
+  if (filesSection) {
+    for (const line of filesSection.content.split('\n')) {
+      const fileMatch = line.match(/^\s*[*-]\s+`([^`]+)`/);
+      if (fileMatch) {
+        filesReviewed.push(fileMatch[1]);
+      }
+    }
+  }
+
+  const commitsSection = findSection(sections, '📥 Commits');
+  const commitsMatch = commitsSection?.content.match(/between\s+`?([0-9a-f]{7,40})`?\s+and\s+`?([0-9a-f]{7,40})`?/i);
+
+  // The first paragraph of "Review details" holds configuration, profile and plan
+  const detailsSection = findSection(sections, '📜 Review details');
+  const summary = detailsSection
+    ? detailsSection.content
+        .split(/\n\s*\n/)[0]
+        .split('\n')
+        .map(line => line.replace(/\*\*/g, '').trim())
+        .filter(line => line.length > 0 && !line.startsWith('<'))
+        .join('; ')
+    : '';
+
+  const counts: Record<ReviewSectionKind, number> = { nitpick: 0, duplicate: 0, outside_diff: 0, additional: 0 };
+  const items: ReviewBodyItem[] = [];
+
+  for (const { marker, kind, category } of ITEM_SECTIONS) {
+    const section = findSection(sections, marker);
+    if (!section) continue;
+
+    counts[kind] = parseSummaryCount(section.summary);
+    for (const fileSection of section.children) {
+      items.push(...parseFileSection(fileSection, kind, category));
+    }
+  }
+
+  return {
+    actionable_comments: actionableMatch ? parseInt(actionableMatch[1]) : 0,
+    nitpick_comments: counts.nitpick,
+    duplicate_comments: counts.duplicate,
+    outside_diff_comments: counts.outside_diff,
+    summary,
+    configuration_used: configMatch ? (configMatch[1] || configMatch[2]).trim() : 'Unknown',
+    review_profile: profileMatch ? (profileMatch[1] || profileMatch[2]).trim() : 'Unknown',
+    files_reviewed: filesReviewed,
+    reviewed_commits: commitsMatch ? { from: commitsMatch[1], to: commitsMatch[2] } : undefined,
+    items,
+    sections
+  };
+}
+
+/**
+ * Give each review body item a synthetic ID, e.g. `review-2969007538-nitpick-1a2b3c4d`
+ *
+ * The hash covers the item's kind, file, lines and title, so IDs don't depend on item order.
+ * Identical items in one review get a numeric suffix.
+ */
+export function withReviewItemIds(reviewId: number, items: ReviewBodyItem[]): IdentifiedReviewBodyItem[] {
+  const seen = new Map<string, number>();
+
+  return items.map(item => {
+    const key = [
+      item.kind,
+      item.file_path,
+      `${item.line_range.start}-${item.line_range.end}`,
+      item.title ?? item.description
+    ].join('|');
+    const hash = createHash('sha1').update(key).digest('hex').slice(0, 8);
+    const occurrence = (seen.get(hash) ?? 0) + 1;
+    seen.set(hash, occurrence);
+
+    const id = `review-${reviewId}-${item.kind}-${hash}${occurrence > 1 ? `-${occurrence}` : ''}`;
+    return { ...item, id };
+  });
+}
+
+const REVIEW_ITEM_ID = /^review-(\d+)-(nitpick|duplicate|outside_diff|additional)-[0-9a-f]{8}(?:-\d+)?$/;
+
+/**
+ * Split a synthetic review body item ID into its review ID and kind, or null if it isn't one
+ */
+export function parseReviewItemId(id: string): { reviewId: number; kind: ReviewSectionKind } | null {
+  const match = id.match(REVIEW_ITEM_ID);
+  return match ? { reviewId: parseInt(match[1]), kind: match[2] as ReviewSectionKind } : null;
+}
+
+/**
+ * Flatten a parsed review body into the tool-facing ParsedCodeRabbitContent shape
+ */
+export function toParsedCodeRabbitContent(parsed: ParsedReviewBody, reviewId?: number): ParsedCodeRabbitContent {
+  const items: Array<ReviewBodyItem & { id?: string }> = reviewId
+    ? withReviewItemIds(reviewId, parsed.items)
+    : parsed.items;
+
+  return {
+    actionable_comments: parsed.actionable_comments,
+    duplicate_comments: parsed.duplicate_comments,
+    nitpick_comments: parsed.nitpick_comments,
+    outside_diff_comments: parsed.outside_diff_comments,
+    summary: parsed.summary,
+    comments: items.map(item => ({
+      id: item.id,
+      kind: item.kind,
+      title: item.title,
+      category: item.category,
+      severity: item.severity,
+      description: item.description,
+      ai_prompt: item.ai_prompt,
+      committable_suggestion: item.committable_suggestion,
+      file_path: item.file_path,
+      line_range: item.line_range.start === item.line_range.end
+        ? `${item.line_range.start}`
+        : `${item.line_range.start}-${item.line_range.end}`
+    }))
+  };
+}
@@ -0,0 +1,164 @@
+export type CodeRabbitSeverity = "error" | "warning" | "info" | "suggestion";
+
+export interface CodeBlock {
+  language: string;
+  code: string;
+}
+
+/**
+ * A `<details>` block with its `<summary>` text and inner markdown.
+ * The `<blockquote>` wrapper CodeRabbit puts around section bodies is removed from `content`.
+ */
+export interface DetailsSection {
+  summary: string;
+  content: string;
+  children: DetailsSection[];
+}
+
+/**
+ * Labels from the italic header line, e.g. `_⚠️ Potential issue_ | _🟠 Major_`
+ */
+export interface CommentHeader {
+  labels: string[];
+}
+
+/**
+ * Structured form of a single CodeRabbit finding (an inline comment or an item in a review body)
+ */
+export interface ParsedCommentBody {
+  header: CommentHeader;
+  severity: CodeRabbitSeverity;
+  category: string;
+  title?: string;
+  description: string;
+  suggestion_blocks: string[];
+  diff_blocks: string[];
+  code_blocks: CodeBlock[];
+  committable_suggestion?: string;
+  ai_prompt?: string;
+  sections: DetailsSection[];
+}
+
+export type ReviewSectionKind = "nitpick" | "duplicate" | "outside_diff" | "additional";
+
+/**
+ * A finding embedded in a review body section, grouped under a file path
+ */
+export interface ReviewBodyItem extends ParsedCommentBody {
+  kind: ReviewSectionKind;
+  file_path: string;
+  line_range: {
+    start: number;
+    end: number;
+  };
+  body: string;
+}
+
+/**
+ * A review body item with a synthetic ID that stays the same when the review is fetched again
+ */
+export interface IdentifiedReviewBodyItem extends ReviewBodyItem {
+  id: string;
+}
+
+/**
+ * Structured form of a CodeRabbit review body
+ */
+export interface ParsedReviewBody {
+  actionable_comments: number;
+  nitpick_comments: number;
+  duplicate_comments: number;
+  outside_diff_comments: number;
+  summary: string;
+  configuration_used: string;
+  review_profile: string;
+  files_reviewed: string[];
+  /** Commit range from the "📥 Commits" section; incremental reviews start after the previously reviewed commit */
+  reviewed_commits?: {
+    from: string;
+    to: string;
+  };
+  items: ReviewBodyItem[];
+  sections: DetailsSection[];
+}
+
+/**
+ * A row of the walkthrough "Changes" table
+ */
+export interface WalkthroughChange {
+  /** Bold group name in the "Cohort / File(s)" column, when CodeRabbit groups files */
+  cohort?: string;
+  files: string[];
+  summary: string;
+}
+
+/**
+ * The "Estimated code review effort" line, e.g. `🎯 3 (Moderate) | ⏱️ ~25 minutes`
+ */
+export interface ReviewEffort {
+  level: number;
+  label: string;
+  minutes?: number;
+}
+
+/**
+ * A row of the "Assessment against linked issues" table
+ */
+export interface LinkedIssueObjective {
+  objective: string;
+  /** Null when CodeRabbit couldn't tell (❓) */
+  addressed: boolean | null;
+  explanation?: string;
+}
+
+/**
+ * The assessed objectives of one linked issue
+ */
+export interface LinkedIssueAssessment {
+  /** Issue reference as written, e.g. `#40` or `acme/chat#40`; absent for objectives that name no issue */
+  issue?: string;
+  objectives: LinkedIssueObjective[];
+}
+
+/**
+ * An entry of the "Possibly related PRs" list
+ */
+export interface RelatedPullRequest {
+  /** `owner/repo` when the PR is in another repository */
+  repository?: string;
+  number: number;
+  reason: string;
+}
+
+/**
+ * A `##` section of the walkthrough comment
+ */
+export interface WalkthroughSection {
+  heading: string;
+  content: string;
+}
+
+/**
+ * Structured form of CodeRabbit's walkthrough issue comment
+ */
+export interface ParsedWalkthrough {
+  summary: string;
+  changes: WalkthroughChange[];
+  sequence_diagrams: string[];
+  estimated_review_effort?: ReviewEffort;
+  poem?: string;
+  linked_issues: LinkedIssueAssessment[];
+  related_prs: RelatedPullRequest[];
+  sections: WalkthroughSection[];
+}
+
+export type CodeRabbitStatusState = "in_progress" | "paused" | "skipped" | "rate_limited";
+
+/**
+ * A review status CodeRabbit shows in its walkthrough or status comment
+ */
+export interface CodeRabbitStatus {
+  state: CodeRabbitStatusState;
+  /** First paragraph of the status note, e.g. how long to wait before the rate limit resets */
+  detail: string;
+}
@@ -0,0 +1,275 @@
+import {
+  CodeRabbitStatus,
+  CodeRabbitStatusState,
+  LinkedIssueAssessment,
+  LinkedIssueObjective,
+  ParsedWalkthrough,
+  RelatedPullRequest,
+  ReviewEffort,
+  WalkthroughChange,
+  WalkthroughSection
+} from './types.js';
+import { extractCodeBlocks, normalizeEmoji, removeCodeBlocks, stripTags } from './markdown.js';
+
+const WALKTHROUGH_START = '<!-- walkthrough_start -->';
+const WALKTHROUGH_END = '<!-- walkthrough_end -->';
+
+/**
+ * Whether an issue comment body is CodeRabbit's walkthrough (summary) comment
+ */
+export function isWalkthroughComment(body: string): boolean {
+  return body.includes(WALKTHROUGH_START) || /^##\s+Walkthrough\s*$/m.test(body);
+}
+
+/**
+ * Split markdown into its `##` sections, ignoring headings inside code fences
+ */
+function splitSections(markdown: string): WalkthroughSection[] {
+  const sections: WalkthroughSection[] = [];
+  let current: { heading: string; lines: string[] } | null = null;
+  let fence: string | null = null;
+
+  const flush = () => {
+    if (current) {
+      sections.push({ heading: current.heading, content: current.lines.join('\n').trim() });
+    }
+  };
+
+  for (const line of markdown.split('\n')) {
+    if (fence === null) {
+      const open = line.match(/^\s*(`{3,}|~{3,})/);
+      if (open) {
+        fence = open[1];
+      } else {
+        const heading = line.match(/^##\s+(.+?)\s*$/);
+        if (heading) {
+          flush();
+          current = { heading: heading[1], lines: [] };
+          continue;
+        }
+      }
+    } else if (line.trim().startsWith(fence) && line.trim().replace(/[`~]/g, '') === '') {
+      fence = null;
+    }
+
+    current?.lines.push(line);
+  }
+
+  flush();
+  return sections;
+}
+
+/**
+ * Find a section by heading, preferring an exact match over a prefix match
+ * (so "Assessment against linked issues" doesn't pick up its "Out-of-scope changes" sibling)
+ */
+function findWalkthroughSection(sections: WalkthroughSection[], heading: string): WalkthroughSection | undefined {
+  const wanted = heading.toLowerCase();
+  const normalized = (section: WalkthroughSection) => normalizeEmoji(section.heading).trim().toLowerCase();
+  return sections.find(section => normalized(section) === wanted)
+    ?? sections.find(section => normalized(section).startsWith(wanted));
+}
+
+/**
+ * Split a markdown table row into trimmed cells, keeping escaped pipes inside cells
+ */
+function tableCells(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\|/, '')
+    .replace(/\|$/, '')
+    .split(/(?<!\\)\|/)
+    .map(cell => cell.replace(/\\\|/g, '|').trim());
+}
+
+/**
+ * The body rows of the first markdown table in a section, without the header and separator rows
+ */
+function tableRows(content: string): string[][] {
+  return content
+    .split('\n')
+    .filter(line => line.trim().startsWith('|'))
+    .map(tableCells)
+    .slice(1)
+    .filter(cells => !cells.every(cell => /^:?-+:?$/.test(cell)));
+}
+
+/**
+ * Parse the "Changes" table; the first column holds an optional bold cohort and the files
+ */
+function parseChangesTable(content: string): WalkthroughChange[] {
+  return tableRows(content)
+    .filter(cells => cells.length >= 2)
+    .map(([fileCell, summaryCell]) => {
+      const parts = fileCell.split(/<br\s*\/?>/i);
+      const cohortMatch = parts.length > 1 ? parts[0].match(/^\*\*(.+)\*\*$/) : null;
+      const filesText = cohortMatch ? parts.slice(1).join(' ') : fileCell;
+
+      const quoted = Array.from(filesText.matchAll(/`([^`]+)`/g), match => match[1].trim());
+      const files = quoted.length > 0
+        ? quoted
+        : stripTags(filesText).split(',').map(file => file.trim()).filter(file => file.length > 0);
+
+      return {
+        cohort: cohortMatch ? cohortMatch[1].trim() : undefined,
+        files,
+        summary: stripTags(summaryCell.replace(/<br\s*\/?>/gi, '\n')).trim()
+      };
+    });
+}
+
+const ISSUE_REFERENCE = /(?:([\w.-]+\/[\w.-]+))?#(\d+)|github\.com\/([\w.-]+\/[\w.-]+)\/issues\/(\d+)/;
+
+/**
+ * Parse the "Assessment against linked issues" table and group its objectives by issue
+ *
+ * CodeRabbit names the issue in a trailing parenthetical, e.g. "Add retries (#40)".
+ */
+function parseLinkedIssues(content: string): LinkedIssueAssessment[] {
+  const byIssue = new Map<string | undefined, LinkedIssueObjective[]>();
+
+  for (const [objectiveCell, addressedCell = '', explanationCell = ''] of tableRows(content)) {
+    let objective = stripTags(objectiveCell).trim();
+    let issue: string | undefined;
+
+    const trailing = objectiveCell.match(/\s*\(((?:[^()]|\([^()]*\))*)\)\s*$/);
+    const reference = trailing?.[1].match(ISSUE_REFERENCE);
+    if (trailing && reference) {
+      issue = reference[2] ? `${reference[1] ?? ''}#${reference[2]}` : `${reference[3]}#${reference[4]}`;
+      objective = stripTags(objectiveCell.slice(0, trailing.index)).trim();
+    }
+
+    const explanation = stripTags(explanationCell.replace(/<br\s*\/?>/gi, '\n')).trim();
+    const objectives = byIssue.get(issue) ?? [];
+    objectives.push({
+      objective,
+      addressed: addressedCell.includes('✅') ? true : addressedCell.includes('❌') ? false : null,
+      explanation: explanation || undefined
+    });
+    byIssue.set(issue, objectives);
+  }
+
+  return Array.from(byIssue, ([issue, objectives]) => ({ issue, objectives }));
+}
+
+const RELATED_PR_ITEM = /^\s*[-*]\s+\[?(?:([\w.-]+\/[\w.-]+))?#(\d+)\]?(?:\([^)]*\))?\s*:?\s*(.*)$/;
+
+/**
+ * Parse the "Possibly related PRs" list; an entry's reason may wrap onto indented lines
+ */
+function parseRelatedPullRequests(content: string): RelatedPullRequest[] {
+  const pullRequests: RelatedPullRequest[] = [];
+
+  for (const line of content.split('\n')) {
+    const item = line.match(RELATED_PR_ITEM);
+    if (item) {
+      pullRequests.push({
+        repository: item[1],
+        number: parseInt(item[2]),
+        reason: item[3].trim()
+      });
+    } else if (pullRequests.length > 0 && /^\s+\S/.test(line)) {
+      const last = pullRequests[pullRequests.length - 1];
+      last.reason = `${last.reason} ${line.trim()}`.trim();
+    }
+  }
+
+  return pullRequests;
+}
+
+function parseReviewEffort(content: string): ReviewEffort | undefined {
+  const levelMatch = content.match(/(\d+)\s*\(([^)]+)\)/);
+  if (!levelMatch) return undefined;
+
+  const minutesMatch = content.match(/~?\s*(\d+)\s*min/i);
+  return {
+    level: parseInt(levelMatch[1]),
+    label: levelMatch[2].trim(),
+    minutes: minutesMatch ? parseInt(minutesMatch[1]) : undefined
+  };
+}
+
+/**
+ * Parse CodeRabbit's walkthrough comment into its summary, changes table, diagrams, effort estimate,
+ * linked-issue assessment, related PRs and poem
+ *
+ * Only the text between the walkthrough markers is read, so the finishing-touches and tips blocks
+ * that follow are ignored.
+ */
+export function parseWalkthrough(body: string): ParsedWalkthrough {
+  const start = body.indexOf(WALKTHROUGH_START);
+  const end = body.indexOf(WALKTHROUGH_END);
+  const content = body.slice(
+    start >= 0 ? start + WALKTHROUGH_START.length : 0,
+    end > start ? end : body.length
+  );
+
+  const sections = splitSections(content.replace(/<!--[\s\S]*?-->/g, ''));
+
+  const walkthrough = findWalkthroughSection(sections, 'walkthrough');
+  const changes = findWalkthroughSection(sections, 'changes');
+  const diagrams = findWalkthroughSection(sections, 'sequence diagram');
+  const effort = findWalkthroughSection(sections, 'estimated code review effort');
+  const poem = findWalkthroughSection(sections, 'poem');
+  const linkedIssues = findWalkthroughSection(sections, 'assessment against linked issues');
+  const relatedPullRequests = findWalkthroughSection(sections, 'possibly related prs');
+
+  return {
+    summary: walkthrough?.content ?? '',
+    changes: changes ? parseChangesTable(changes.content) : [],
+    sequence_diagrams: diagrams
+      ? extractCodeBlocks(diagrams.content)
+          .filter(block => block.language === 'mermaid')
+          .map(block => block.code)
+      : [],
+    estimated_review_effort: effort ? parseReviewEffort(effort.content) : undefined,
+    poem: poem
+      ? poem.content.split('\n').map(line => line.replace(/^>\s?/, '')).join('\n').trim()
+      : undefined,
+    linked_issues: linkedIssues ? parseLinkedIssues(linkedIssues.content) : [],
+    related_prs: relatedPullRequests ? parseRelatedPullRequests(relatedPullRequests.content) : [],
+    sections
+  };
+}
+
+/**
+ * Status notes CodeRabbit adds to its comments, by the marker comment and the heading it uses
+ */
+const STATUS_MARKERS: Array<{ state: CodeRabbitStatusState; marker: RegExp; heading: RegExp }> = [
+  { state: 'rate_limited', marker: /<!--[^>]*rate limited by coderabbit\.ai/i, heading: /^##\s+Rate limit exceeded/im },
+  { state: 'paused', marker: /<!--[^>]*review paused by coderabbit\.ai/i, heading: /^##\s+Reviews? paused/im },
+  { state: 'skipped', marker: /<!--[^>]*skip review by coderabbit\.ai/i, heading: /^##\s+Review skipped/im },
+  { state: 'in_progress', marker: /<!--[^>]*review in progress by coderabbit\.ai/i, heading: /^##\s+.*review in progress|Currently processing new changes/im }
+];
+
+/**
+ * Detect a review status note (in progress, paused, skipped or rate limited) in a CodeRabbit comment
+ */
+export function parseReviewStatus(body: string): CodeRabbitStatus | undefined {
+  // CodeRabbit puts status notes in `> [!NOTE]` style callouts
+  const text = stripTags(removeCodeBlocks(body))
+    .split('\n')
+    .map(line => line.replace(/^\s*>\s?/, '').replace(/^\[!\w+\]\s*$/, ''))
+    .join('\n');
+
+  const status = STATUS_MARKERS.find(({ marker, heading }) => marker.test(body) || heading.test(text));
+  if (!status) return undefined;
+
+  // The detail starts below a `##` heading, or at the line that matched otherwise
+  const headingMatch = text.match(status.heading);
+  let rest = text;
+  if (headingMatch) {
+    const lineStart = text.lastIndexOf('\n', headingMatch.index!) + 1;
+    const lineEnd = text.indexOf('\n', headingMatch.index!);
+    rest = !headingMatch[0].startsWith('#')
+      ? text.slice(lineStart)
+      : lineEnd >= 0 ? text.slice(lineEnd + 1) : '';
+  }
+
+  const detail = rest
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.split('\n').map(line => line.trim()).join(' ').trim())
+    .find(paragraph => paragraph.length > 0 && !paragraph.startsWith('#')) ?? '';
+
+  return { state: status.state, detail };
+}
@@ -0,0 +1,404 @@
+import { z } from 'zod';
+import { PromptArgument } from '@modelcontextprotocol/sdk/types.js';
+import { CodeRabbitComment, CodeRabbitReview } from './types.js';
+import { GitHubClient } from './github-client.js';
+import { ResolutionLedger } from './resolution-ledger.js';
+import { getCoderabbitReviews } from './tools/get-reviews.js';
+import { getReviewComments } from './tools/get-comments.js';
+import { getLinkedIssues } from './tools/get-linked-issues.js';
+import { coversCommit } from './tools/wait-for-review.js';
+
+// CodeRabbit review processing prompt template
+const CODERABBIT_REVIEW_PROMPT = `I'll process CodeRabbit reviews for this pull request systematically. Here's my optimized workflow:
+
+## **Phase 1: Discovery & Assessment**
+
+1. **Find open PR** for current branch
+2. **Get CodeRabbit review summary** from \`get_coderabbit_reviews\` (use summary data, avoid large comment responses)
+3. **Extract actionable items** from review body using actionable_comments count and summary
+4. **Create todo list** with prioritized issues from review summary (avoid calling \`get_review_comments\` initially due to token limits)
+
+## **Phase 2: Issue Classification**
+
+**Assessment Guidelines:**
+- **HIGH PRIORITY (Must Fix):**
+  - Security vulnerabilities
+  - Breaking changes or bugs
+  - TypeScript/compilation errors
+  - Performance issues with significant impact
+  - Logic errors or incorrect implementations
+
+- **MEDIUM PRIORITY (Should Fix):**
+  - Type safety improvements
+  - Performance optimizations (moderate impact)
+  - Code maintainability issues
+  - Missing error handling
+
+- **LOW PRIORITY (Nice to Have):**
+  - Style/formatting nitpicks
+  - Code organization suggestions
+  - Minor optimizations
+  - Documentation improvements
+
+- **SKIP (Not Actionable):**
+  - Purely subjective style preferences
+  - Suggestions without clear benefit
+  - Comments that require significant architecture changes
+  - Out-of-scope recommendations
+
+## **Phase 3: User Approval**
+
+Present the categorized todo list to the user for approval before starting work:
+- Show issue priorities and brief descriptions
+- Ask user to confirm which issues to address
+- Allow user to modify priorities or skip items
+
+## **Phase 4: Implementation**
+
+For approved issues:
+1. **Work on HIGH priority items first**
+2. **Use task tracking to monitor progress** (mark in_progress, then completed)
+3. **Launch each task as a subtask** using the Task tool for focused execution
+4. **Apply fixes systematically** by reading files and making targeted edits
+5. **Get individual comment details** only when needed using \`get_comment_details\`
+6. **Resolve each comment** with \`resolve_comment\` including fix details
+
+## **Phase 5: Completion**
+
+- Mark all todos as completed
+- Report final status: "Ready to merge" or list remaining issues
+- Provide summary of all fixes applied
+
+## **Error Handling for Large Responses:**
+
+If \`get_review_comments\` exceeds token limits:
+1. Call it again with \`compact: true\`, \`unresolvedOnly: true\` and a \`fields\` list such as \`["id", "path", "line_range", "severity", "description"]\`
+2. Narrow further with \`severity\`, \`path\` or \`sinceCommit\`
+3. Extract actionable items from review summary instead
+4. Parse review body for specific file/line mentions
+5. Use targeted \`get_comment_details\` for individual issues
+6. Work from review metadata rather than full comment dump`;
+
+export interface PromptContext {
+  githubClient: GitHubClient;
+  ledger: ResolutionLedger;
+}
+
+export interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+  /** Build the prompt text, fetching whatever live PR data it embeds */
+  render(args: Record<string, string | undefined>, context: PromptContext): Promise<string>;
+}
+
+const PULL_REQUEST_ARGUMENTS: PromptArgument[] = [
+  {
+    name: "owner",
+    description: "Repository owner (username or organization)",
+    required: true
+  },
+  {
+    name: "repo",
+    description: "Repository name",
+    required: true
+  },
+  {
+    name: "pullNumber",
+    description: "Pull request number",
+    required: true
+  }
+];
+
+// Prompt arguments always arrive as strings
+const PullRequestArgsSchema = z.object({
+  owner: z.string().min(1, "Repository owner is required"),
+  repo: z.string().min(1, "Repository name is required"),
+  pullNumber: z.coerce.number({ invalid_type_error: "Pull request number must be a number" }).int().positive("Pull request number must be positive")
+});
+
+const ReplyDisputesArgsSchema = PullRequestArgsSchema.extend({
+  commentIds: z.string().optional()
+});
+
+/** Findings listed in a prompt before the rest are left to `get_review_comments` */
+const MAX_LISTED_FINDINGS = 50;
+
+const SEVERITY_ORDER = ['error', 'warning', 'suggestion', 'info'];
+
+function lineLabel(comment: CodeRabbitComment): string {
+  const { start, end } = comment.line_range;
+  return start === end ? `${start}` : `${start}-${end}`;
+}
+
+/**
+ * One line per finding: ID, location, severity/category and title
+ */
+function formatFindings(comments: CodeRabbitComment[]): string {
+  if (comments.length === 0) {
+    return '(none)';
+  }
+
+  const lines = comments.slice(0, MAX_LISTED_FINDINGS).map(comment => {
+    const summary = comment.title ?? comment.description.split('\n')[0];
+    return `- [${comment.id}] ${comment.path}:${lineLabel(comment)} · ${comment.severity}/${comment.category} · ${summary}`;
+  });
+  if (comments.length > MAX_LISTED_FINDINGS) {
+    lines.push(`- …and ${comments.length - MAX_LISTED_FINDINGS} more (use get_review_comments with a cursor to see them)`);
+  }
+  return lines.join('\n');
+}
+
+function countBy(comments: CodeRabbitComment[], key: (comment: CodeRabbitComment) => string): string {
+  const counts = new Map<string, number>();
+  for (const comment of comments) {
+    counts.set(key(comment), (counts.get(key(comment)) ?? 0) + 1);
+  }
+  return counts.size === 0
+    ? 'none'
+    : [...counts].map(([value, count]) => `${count} ${value}`).join(', ');
+}
+
+/**
+ * Latest CodeRabbit review of a PR, as a one-line summary
+ */
+async function describeLatestReview(
+  githubClient: GitHubClient,
+  owner: string,
+  repo: string,
+  pullNumber: number
+): Promise<{ line: string; review?: CodeRabbitReview }> {
+  const { reviews } = await getCoderabbitReviews({ owner, repo, pullNumber }, githubClient);
+  const latest = reviews[reviews.length - 1];
+  if (!latest) {
+    return { line: 'CodeRabbit has not reviewed this PR yet' };
+  }
+  return {
+    line: `Latest CodeRabbit review: ${latest.id} on ${latest.commit_id.slice(0, 7)} (${latest.submitted_at}), ${latest.actionable_comments} actionable comments (review ${reviews.length} on this PR)`,
+    review: latest
+  };
+}
+
+/**
+ * Unresolved, current findings, most severe first
+ *
+ * Review body items only count from the latest review: CodeRabbit lists still-relevant earlier
+ * findings again under its duplicate comments, so older body items would only pile up.
+ */
+async function openFindings(
+  context: PromptContext,
+  owner: string,
+  repo: string,
+  pullNumber: number,
+  latestReviewId: number | undefined,
+  category?: string[]
+): Promise<CodeRabbitComment[]> {
+  const { comments } = await getReviewComments({
+    owner,
+    repo,
+    pullNumber,
+    category,
+    unresolvedOnly: true,
+    excludeOutdated: true,
+    compact: false,
+    includeReviewBodyItems: true
+  }, context.githubClient, context.ledger);
+  // No projection was requested, so every comment has all fields
+  return (comments as CodeRabbitComment[])
+    .filter(comment => comment.inline || comment.review_id === latestReviewId)
+    .sort((a, b) =>
+      SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity)
+    );
+}
+
+const reviewPrompt: PromptDefinition = {
+  name: "coderabbit-review",
+  description: "Automated CodeRabbit review processing and issue resolution for the current branch",
+  arguments: PULL_REQUEST_ARGUMENTS.map(argument =>
+    argument.name === "pullNumber" ? { ...argument, description: "Pull request number to process" } : argument
+  ),
+  render: async (args) => {
+    const owner = args.owner || "";
+    const repo = args.repo || "";
+    const pullNumber = args.pullNumber || "";
+
+    return CODERABBIT_REVIEW_PROMPT +
+      (owner && repo && pullNumber
+        ? `\n\nLet me start the process for ${owner}/${repo}#${pullNumber}:`
+        : '\n\nPlease provide the repository owner, repo name, and pull request number to begin processing.');
+  }
+};
+
+const triagePrompt: PromptDefinition = {
+  name: "coderabbit-triage",
+  description: "Classify the open CodeRabbit findings on a PR by priority without changing anything",
+  arguments: PULL_REQUEST_ARGUMENTS,
+  render: async (args, context) => {
+    const { owner, repo, pullNumber } = PullRequestArgsSchema.parse(args);
+    const latest = await describeLatestReview(context.githubClient, owner, repo, pullNumber);
+    const findings = await openFindings(context, owner, repo, pullNumber, latest.review?.id);
+
+    return `Triage the open CodeRabbit findings on ${owner}/${repo}#${pullNumber}. Classify only: do not edit files, commit, reply to, or resolve anything.
+
+## Current state
+
+- ${latest.line}
+- Open findings (unresolved, not outdated): ${findings.length} (${countBy(findings, comment => comment.severity)})
+
+## Findings
+
+${formatFindings(findings)}
+
+## Instructions
+
+1. Put every finding in exactly one class:
+   - **must-fix**: bugs, security problems, data loss, broken builds
+   - **should-fix**: real but lower-impact problems, such as missing error handling or type safety gaps
+   - **nit**: style, naming and optional refactors
+   - **reject**: wrong, out of scope, or already handled elsewhere
+2. Read the code with the finding's path and lines before deciding; use \`get_comment_details\` when the title is not enough.
+3. Finish with a table of \`id | location | class | one-line reason\`, ordered must-fix first, and the count per class.`;
+  }
+};
+
+const securityPassPrompt: PromptDefinition = {
+  name: "coderabbit-security-pass",
+  description: "Work only through the open security and potential-issue findings on a PR",
+  arguments: PULL_REQUEST_ARGUMENTS,
+  render: async (args, context) => {
+    const { owner, repo, pullNumber } = PullRequestArgsSchema.parse(args);
+    const latest = await describeLatestReview(context.githubClient, owner, repo, pullNumber);
+    const findings = await openFindings(context, owner, repo, pullNumber, latest.review?.id, ['Security', 'Potential Issue']);
+
+    return `Do a security pass over ${owner}/${repo}#${pullNumber}, limited to CodeRabbit's open Security and Potential Issue findings. Ignore refactor suggestions, nitpicks and everything else.
+
+## Current state
+
+- ${latest.line}
+- Open security and potential-issue findings: ${findings.length} (${countBy(findings, comment => comment.category)})
+
+## Findings
+
+${formatFindings(findings)}
+
+## Instructions
+
+1. Start with Security findings, then Potential Issue findings by severity (error, warning, suggestion, info).
+2. For each one, fetch the full text with \`get_comment_details\` and confirm the problem against the code. Use the AI prompt and committable suggestion when present.
+3. Fix confirmed problems with minimal, targeted changes, then record each with \`resolve_comment\` (\`resolution: "addressed"\`, with a note and the commit SHA). Review-body findings are resolved by \`reviewItemId\` and \`pullNumber\` instead of \`commentId\`.
+4. For findings that turn out not to apply, explain why and record them with \`resolution: "not_applicable"\`.
+5. Report which findings were fixed, which were rejected and why, and anything that needs a human decision.`;
+  }
+};
+
+const replyDisputesPrompt: PromptDefinition = {
+  name: "coderabbit-reply-disputes",
+  description: "Draft replies to CodeRabbit findings we reject, for approval before posting",
+  arguments: [
+    ...PULL_REQUEST_ARGUMENTS,
+    {
+      name: "commentIds",
+      description: "Comma-separated finding IDs to dispute (default: findings recorded as won't fix or not applicable)",
+      required: false
+    }
+  ],
+  render: async (args, context) => {
+    const { owner, repo, pullNumber, commentIds } = ReplyDisputesArgsSchema.parse(args);
+    const wanted = commentIds
+      ? new Set(commentIds.split(',').map(id => id.trim()).filter(id => id.length > 0))
+      : undefined;
+
+    const { comments } = await getReviewComments({
+      owner,
+      repo,
+      pullNumber,
+      unresolvedOnly: false,
+      excludeOutdated: false,
+      compact: false,
+      includeReviewBodyItems: true
+    }, context.githubClient, context.ledger);
+
+    const disputed = (comments as CodeRabbitComment[]).filter(comment => wanted
+      ? wanted.has(String(comment.id))
+      : comment.local_resolution?.resolution === 'wont_fix' || comment.local_resolution?.resolution === 'not_applicable'
+    );
+    const missing = wanted ? [...wanted].filter(id => !disputed.some(comment => String(comment.id) === id)) : [];
+    const source = wanted
+      ? 'the requested findings'
+      : "findings recorded in the resolution ledger as won't fix or not applicable";
+
+    return `Draft replies to CodeRabbit findings on ${owner}/${repo}#${pullNumber} that we are not going to act on.
+
+## Findings to dispute
+
+These are ${source}: ${disputed.length} of ${comments.length} findings on the PR.${missing.length > 0 ? ` Not found: ${missing.join(', ')}.` : ''}
+
+${formatFindings(disputed)}
+
+## Instructions
+
+1. For each finding, read its full text with \`get_comment_details\` and the code it points at, including any ledger note explaining the decision.
+2. Draft a short, technical reply: why the finding does not apply or why we accept the trade-off, with file and line references. No apologies or filler.
+3. Present all drafts for approval before posting anything.
+4. After approval, post each inline finding's reply with \`ask_coderabbit\` so CodeRabbit can answer in the thread. Review-body findings have no thread; put those replies in one PR comment.
+5. If CodeRabbit agrees, record the outcome with \`resolve_comment\` using \`resolution: "wont_fix"\` or \`"not_applicable"\`. If it raises a new point, bring it back for a decision.`;
+  }
+};
+
+const preMergePrompt: PromptDefinition = {
+  name: "coderabbit-pre-merge",
+  description: "Check that nothing actionable from CodeRabbit remains before a PR is merged",
+  arguments: PULL_REQUEST_ARGUMENTS,
+  render: async (args, context) => {
+    const { owner, repo, pullNumber } = PullRequestArgsSchema.parse(args);
+    const pr = await context.githubClient.getPullRequest(owner, repo, pullNumber);
+    const latest = await describeLatestReview(context.githubClient, owner, repo, pullNumber);
+    const findings = await openFindings(context, owner, repo, pullNumber, latest.review?.id);
+
+    const headSha = pr.head.sha;
+    const reviewState = latest.review && coversCommit(latest.review, headSha)
+      ? `the latest review covers the head commit ${headSha.slice(0, 7)}`
+      : `the latest review is not on the head commit ${headSha.slice(0, 7)}; it may be stale`;
+
+    let linkedIssues = 'No CodeRabbit walkthrough found, so there is no linked-issue assessment';
+    try {
+      const assessment = await getLinkedIssues({ owner, repo, pullNumber }, context.githubClient);
+      const objectives = assessment.linked_issues.flatMap(issue => issue.objectives);
+      linkedIssues = objectives.length === 0
+        ? 'No linked issues were assessed'
+        : `Linked-issue objectives: ${objectives.filter(objective => objective.addressed === true).length} addressed, ` +
+          `${objectives.filter(objective => objective.addressed === false).length} not addressed, ` +
+          `${objectives.filter(objective => objective.addressed === null).length} unclear`;
+    } catch {
+      // The walkthrough comment is optional
+    }
+
+    return `Check whether ${owner}/${repo}#${pullNumber} ("${pr.title}") is ready to merge as far as CodeRabbit is concerned. Do not merge it yourself.
+
+## Current state
+
+- ${latest.line}
+- Review coverage: ${reviewState}
+- Open findings (unresolved, not outdated): ${findings.length} (${countBy(findings, comment => comment.severity)})
+- ${linkedIssues}
+
+## Open findings
+
+${formatFindings(findings)}
+
+## Instructions
+
+1. If the latest review does not cover the head commit, call \`wait_for_review\` first and re-check the counts with \`get_review_comments\` (\`unresolvedOnly: true\`).
+2. Any open finding with severity error or warning, or in the Security or Potential Issue category, blocks the merge unless the ledger records it as won't fix or not applicable.
+3. Check the linked-issue objectives with \`get_linked_issues\`; an objective marked not addressed blocks the merge unless it was deliberately split out.
+4. Answer with **Ready to merge** or **Not ready**, followed by the blocking items (id, location, one-line reason) and any remaining nits that can wait.`;
+  }
+};
+
+export const PROMPTS: PromptDefinition[] = [
+  reviewPrompt,
+  triagePrompt,
+  securityPassPrompt,
+  replyDisputesPrompt,
+  preMergePrompt
+];
@@ -0,0 +1,133 @@
+import { readFileSync, appendFileSync, mkdirSync, existsSync } from 'fs';
+import { join, dirname } from 'path';
+import { homedir } from 'os';
+import { ResolutionRecord, ResolutionType } from './types.js';
+
+export interface ResolutionLedgerOptions {
+  /** Directory holding the ledger file; defaults to CODERABBIT_DATA_DIR or ~/.coderabbit-mcp */
+  directory?: string;
+}
+
+export interface ResolutionQuery {
+  owner?: string;
+  repo?: string;
+  pullNumber?: number;
+  commentId?: number | string;
+  resolution?: ResolutionType;
+  /** Only entries recorded at or after this time */
+  since?: Date;
+  /** Only entries recorded at or before this time */
+  until?: Date;
+}
+
+const LEDGER_FILE_NAME = 'resolutions.jsonl';
+
+/**
+ * Append-only JSON-lines log of comment resolutions made through this server
+ *
+ * The file is re-read on every query so entries written by other processes
+ * (e.g. another server instance) are picked up. The latest entry for a
+ * comment wins.
+ */
+export class ResolutionLedger {
+  readonly filePath: string;
+
+  constructor(options: ResolutionLedgerOptions = {}) {
+    const directory = options.directory
+      ?? process.env.CODERABBIT_DATA_DIR
+      ?? join(homedir(), '.coderabbit-mcp');
+    this.filePath = join(directory, LEDGER_FILE_NAME);
+  }
+
+  /**
+   * Append a resolution to the ledger, stamping it with the current time
+   * Throws when the ledger file cannot be written.
+   */
+  record(entry: Omit<ResolutionRecord, 'recorded_at'>): ResolutionRecord {
+    const record: ResolutionRecord = { ...entry, recorded_at: new Date().toISOString() };
+
+    try {
+      mkdirSync(dirname(this.filePath), { recursive: true });
+      appendFileSync(this.filePath, JSON.stringify(record) + '\n', 'utf-8');
+    } catch (error) {
+      throw new Error(`Failed to write resolution ledger ${this.filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    return record;
+  }
+
+  /**
+   * Entries matching the query, oldest first
+   */
+  query(query: ResolutionQuery = {}): ResolutionRecord[] {
+    return this.readAll().filter(record => {
+      if (query.owner && record.owner.toLowerCase() !== query.owner.toLowerCase()) return false;
+      if (query.repo && record.repo.toLowerCase() !== query.repo.toLowerCase()) return false;
+      if (query.pullNumber && record.pull_number !== query.pullNumber) return false;
+      if (query.commentId && record.comment_id !== query.commentId) return false;
+      if (query.resolution && record.resolution !== query.resolution) return false;
+
+      const recordedAt = Date.parse(record.recorded_at);
+      if (query.since && recordedAt < query.since.getTime()) return false;
+      if (query.until && recordedAt > query.until.getTime()) return false;
+      return true;
+    });
+  }
+
+  /**
+   * Latest entry per comment ID for a repository (optionally a single PR)
+   */
+  latestByComment(owner: string, repo: string, pullNumber?: number): Map<number | string, ResolutionRecord> {
+    const latest = new Map<number | string, ResolutionRecord>();
+    for (const record of this.query({ owner, repo, pullNumber })) {
+      latest.set(record.comment_id, record);
+    }
+    return latest;
+  }
+
+  /**
+   * Latest entry for a single comment
+   */
+  latestFor(owner: string, repo: string, commentId: number | string): ResolutionRecord | undefined {
+    const records = this.query({ owner, repo, commentId });
+    return records[records.length - 1];
+  }
+
+  private readAll(): ResolutionRecord[] {
+    if (!existsSync(this.filePath)) return [];
+
+    let content: string;
+    try {
+      content = readFileSync(this.filePath, 'utf-8');
+    } catch (error) {
+      console.warn(`Ignoring unreadable resolution ledger ${this.filePath}:`, error instanceof Error ? error.message : String(error));
+      return [];
+    }
+
+    const records: ResolutionRecord[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        records.push(JSON.parse(line) as ResolutionRecord);
+      } catch {
+        // Skip partially written or corrupted lines
+      }
+    }
+    return records;
+  }
+}
+
+/**
+ * Whether a ledger entry marks its comment as resolved
+ */
+export function isResolvedRecord(record: ResolutionRecord): boolean {
+  return record.resolution !== 'unresolved';
+}
+
+/**
+ * Whether a ledger entry is a local decision GitHub's thread state can't express
+ * ("won't fix" or "not applicable" from resolve_comment)
+ */
+export function isLocalResolution(record: ResolutionRecord): boolean {
+  return record.resolution === 'wont_fix' || record.resolution === 'not_applicable';
+}
@@ -0,0 +1,199 @@
+import { ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import { GitHubClient } from './github-client.js';
+import { ResolutionLedger } from './resolution-ledger.js';
+import { getCoderabbitReviews } from './tools/get-reviews.js';
+import { getReviewDetails } from './tools/get-review-details.js';
+import { getCommentDetails } from './tools/get-comment-details.js';
+
+export const RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: 'coderabbit://{owner}/{repo}/pull/{pullNumber}/reviews',
+    name: 'CodeRabbit reviews',
+    description: 'All CodeRabbit reviews of a pull request with their actionable counts',
+    mimeType: 'application/json'
+  },
+  {
+    uriTemplate: 'coderabbit://{owner}/{repo}/pull/{pullNumber}/reviews/{reviewId}',
+    name: 'CodeRabbit review',
+    description: 'One CodeRabbit review with its parsed body and findings',
+    mimeType: 'application/json'
+  },
+  {
+    uriTemplate: 'coderabbit://{owner}/{repo}/pull/{pullNumber}/comments/{commentId}',
+    name: 'CodeRabbit comment',
+    description: 'One CodeRabbit review comment with its thread and resolution state',
+    mimeType: 'application/json'
+  }
+];
+
+export interface ResourceLocation {
+  kind: 'reviews' | 'review' | 'comment';
+  owner: string;
+  repo: string;
+  pullNumber: number;
+  /** Review or comment ID */
+  id?: number;
+}
+
+const RESOURCE_URI = /^coderabbit:\/\/([^/]+)\/([^/]+)\/pull\/(\d+)\/(reviews|comments)(?:\/(\d+))?\/?$/;
+
+/**
+ * Parse a `coderabbit://` resource URI
+ */
+export function parseResourceUri(uri: string): ResourceLocation {
+  const match = uri.match(RESOURCE_URI);
+  if (!match || (match[4] === 'comments' && !match[5])) {
+    throw new Error(`Unrecognized resource URI: ${uri}`);
+  }
+
+  const [, owner, repo, pullNumber, collection, id] = match;
+  return {
+    kind: collection === 'comments' ? 'comment' : id ? 'review' : 'reviews',
+    owner: decodeURIComponent(owner),
+    repo: decodeURIComponent(repo),
+    pullNumber: parseInt(pullNumber),
+    id: id ? parseInt(id) : undefined
+  };
+}
+
+/**
+ * Read a resource through the matching tool, so resources and tools return the same shape
+ */
+export async function readResource(
+  location: ResourceLocation,
+  githubClient: GitHubClient,
+  ledger: ResolutionLedger
+): Promise<unknown> {
+  const { kind, owner, repo, pullNumber, id } = location;
+
+  switch (kind) {
+    case 'reviews':
+      return getCoderabbitReviews({ owner, repo, pullNumber }, githubClient);
+    case 'review':
+      return getReviewDetails({ owner, repo, pullNumber, reviewId: id! }, githubClient);
+    case 'comment':
+      return getCommentDetails({ owner, repo, pullNumber, commentId: id!, scanRecentPRs: false }, githubClient, ledger);
+  }
+}
+
+const DEFAULT_POLL_INTERVAL_MS = 60_000;
+
+interface WatchedPullRequest {
+  owner: string;
+  repo: string;
+  pullNumber: number;
+  uris: Set<string>;
+  /** IDs of the CodeRabbit reviews and comments seen so far */
+  seen: Set<string>;
+}
+
+/**
+ * Track resource subscriptions for one MCP session and notify when CodeRabbit posts
+ * a new review or comment on a subscribed pull request
+ *
+ * Each subscribed PR is polled every `CODERABBIT_SUBSCRIPTION_POLL_MS` (default 60s). Any new
+ * CodeRabbit review, review comment (including thread replies) or PR comment marks every
+ * subscribed resource of that PR as updated.
+ */
+export class ResourceSubscriptions {
+  private watched = new Map<string, WatchedPullRequest>();
+  private timer?: NodeJS.Timeout;
+  private polling = false;
+  private intervalMs: number;
+
+  constructor(
+    private githubClient: GitHubClient,
+    private notifyUpdated: (uri: string) => Promise<void>,
+    intervalMs?: number
+  ) {
+    const fromEnv = parseInt(process.env.CODERABBIT_SUBSCRIPTION_POLL_MS ?? '');
+    this.intervalMs = intervalMs ?? (Number.isFinite(fromEnv) && fromEnv > 0 ? fromEnv : DEFAULT_POLL_INTERVAL_MS);
+  }
+
+  /**
+   * Subscribe to a resource; the first subscription on a PR records what already exists
+   */
+  async subscribe(uri: string): Promise<void> {
+    const { owner, repo, pullNumber } = parseResourceUri(uri);
+    const key = `${owner}/${repo}#${pullNumber}`.toLowerCase();
+
+    let pr = this.watched.get(key);
+    if (!pr) {
+      pr = { owner, repo, pullNumber, uris: new Set(), seen: await this.snapshot(owner, repo, pullNumber) };
+      this.watched.set(key, pr);
+    }
+    pr.uris.add(uri);
+
+    if (!this.timer) {
+      this.timer = setInterval(() => void this.poll(), this.intervalMs);
+      this.timer.unref();
+    }
+  }
+
+  unsubscribe(uri: string): void {
+    for (const [key, pr] of this.watched) {
+      pr.uris.delete(uri);
+      if (pr.uris.size === 0) {
+        this.watched.delete(key);
+      }
+    }
+
+    if (this.watched.size === 0) {
+      this.close();
+    }
+  }
+
+  /**
+   * Subscribed URIs, for resource listing
+   */
+  list(): string[] {
+    return [...this.watched.values()].flatMap(pr => [...pr.uris]);
+  }
+
+  close(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private async snapshot(owner: string, repo: string, pullNumber: number): Promise<Set<string>> {
+    const [reviews, comments, issueComments] = await Promise.all([
+      this.githubClient.getPullRequestReviews(owner, repo, pullNumber),
+      this.githubClient.getPullRequestComments(owner, repo, pullNumber),
+      this.githubClient.getIssueComments(owner, repo, pullNumber)
+    ]);
+
+    const isCodeRabbit = (item: { user: { login: string } }) => item.user.login === 'coderabbitai[bot]';
+    return new Set([
+      ...reviews.items.filter(isCodeRabbit).map(review => `review:${review.id}`),
+      ...comments.items.filter(isCodeRabbit).map(comment => `comment:${comment.id}`),
+      ...issueComments.items.filter(isCodeRabbit).map(comment => `issue_comment:${comment.id}`)
+    ]);
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      for (const pr of [...this.watched.values()]) {
+        try {
+          const current = await this.snapshot(pr.owner, pr.repo, pr.pullNumber);
+          const changed = [...current].some(id => !pr.seen.has(id));
+          pr.seen = current;
+
+          if (changed) {
+            for (const uri of pr.uris) {
+              await this.notifyUpdated(uri);
+            }
+          }
+        } catch (error) {
+          console.warn(`Subscription poll failed for ${pr.owner}/${pr.repo}#${pr.pullNumber}:`, error instanceof Error ? error.message : String(error));
+        }
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+}
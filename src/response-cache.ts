@@ -0,0 +1,171 @@
+import { readFileSync, writeFileSync, mkdirSync, existsSync } from 'fs';
+import { dirname } from 'path';
+
+export interface CachedResponse {
+  etag?: string;
+  lastModified?: string;
+  link?: string;
+  body: string;
+  storedAt: number;
+}
+
+export interface ResponseCacheStats {
+  entries: number;
+  hits: number;
+  misses: number;
+  invalidations: number;
+}
+
+export interface ResponseCacheOptions {
+  /** Optional JSON file the cache is loaded from and persisted to */
+  filePath?: string;
+  /** Maximum number of cached responses; the least recently used are evicted first */
+  maxEntries?: number;
+}
+
+const DEFAULT_MAX_ENTRIES = 500;
+const PERSIST_DELAY_MS = 1000;
+
+/**
+ * Conditional-request cache for GitHub GET responses
+ *
+ * Entries are keyed by request URL and hold the validators (`ETag`, `Last-Modified`)
+ * needed to revalidate with `If-None-Match` / `If-Modified-Since`. A 304 response
+ * lets the client reuse the cached body without spending rate limit.
+ */
+export class ResponseCache {
+  private entries = new Map<string, CachedResponse>();
+  private filePath?: string;
+  private maxEntries: number;
+  private persistTimer: NodeJS.Timeout | null = null;
+  private hits = 0;
+  private misses = 0;
+  private invalidations = 0;
+
+  constructor(options: ResponseCacheOptions = {}) {
+    this.filePath = options.filePath;
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+
+    if (this.filePath) {
+      this.load();
+      process.on('exit', () => this.persistNow());
+    }
+  }
+
+  /**
+   * Get the cached entry for a URL, marking it as recently used
+   */
+  get(url: string): CachedResponse | undefined {
+    const entry = this.entries.get(url);
+    if (entry) {
+      this.entries.delete(url);
+      this.entries.set(url, entry);
+    }
+    return entry;
+  }
+
+  /**
+   * Store a response that carries at least one validator
+   */
+  set(url: string, entry: CachedResponse): void {
+    this.entries.delete(url);
+    this.entries.set(url, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+
+    this.schedulePersist();
+  }
+
+  /**
+   * Record a cache hit (304 Not Modified) for statistics
+   */
+  recordHit(url: string): void {
+    this.hits++;
+    debugLog(`hit ${url}`, this.getStats());
+  }
+
+  /**
+   * Record a cache miss (full response downloaded) for statistics
+   */
+  recordMiss(url: string): void {
+    this.misses++;
+    debugLog(`miss ${url}`, this.getStats());
+  }
+
+  /**
+   * Remove every entry whose URL matches the predicate
+   */
+  invalidate(predicate: (url: string, entry: CachedResponse) => boolean): number {
+    let removed = 0;
+    for (const [url, entry] of this.entries) {
+      if (predicate(url, entry)) {
+        this.entries.delete(url);
+        removed++;
+      }
+    }
+
+    if (removed > 0) {
+      this.invalidations += removed;
+      debugLog(`invalidated ${removed} entries`, this.getStats());
+      this.schedulePersist();
+    }
+    return removed;
+  }
+
+  getStats(): ResponseCacheStats {
+    return {
+      entries: this.entries.size,
+      hits: this.hits,
+      misses: this.misses,
+      invalidations: this.invalidations
+    };
+  }
+
+  private load(): void {
+    if (!this.filePath || !existsSync(this.filePath)) return;
+
+    try {
+      const data = JSON.parse(readFileSync(this.filePath, 'utf-8')) as Record<string, CachedResponse>;
+      for (const [url, entry] of Object.entries(data)) {
+        this.entries.set(url, entry);
+      }
+      debugLog(`loaded ${this.entries.size} entries from ${this.filePath}`);
+    } catch (error) {
+      console.warn(`Ignoring unreadable response cache ${this.filePath}:`, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private schedulePersist(): void {
+    if (!this.filePath || this.persistTimer) return;
+
+    this.persistTimer = setTimeout(() => this.persistNow(), PERSIST_DELAY_MS);
+    this.persistTimer.unref();
+  }
+
+  private persistNow(): void {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+    }
+    if (!this.filePath) return;
+
+    try {
+      mkdirSync(dirname(this.filePath), { recursive: true });
+      writeFileSync(this.filePath, JSON.stringify(Object.fromEntries(this.entries)));
+    } catch (error) {
+      console.warn(`Failed to persist response cache ${this.filePath}:`, error instanceof Error ? error.message : String(error));
+    }
+  }
+}
+
+function debugLog(message: string, stats?: ResponseCacheStats): void {
+  if (process.env.CODERABBIT_LOG_LEVEL !== 'debug') return;
+
+  const suffix = stats
+    ? ` (entries=${stats.entries} hits=${stats.hits} misses=${stats.misses} invalidations=${stats.invalidations})`
+    : '';
+  console.error(`[cache] ${message}${suffix}`);
+}
@@ -6,6 +6,11 @@ import {
   ListToolsRequestSchema,
   ListPromptsRequestSchema,
   GetPromptRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
   McpError,
   Tool,
   Prompt,
@@ -22,12 +27,39 @@ import { getReviewComments, GetReviewCommentsInput } from "./tools/get-comments.
 import { getCommentDetails, GetCommentDetailsInput } from "./tools/get-comment-details.js";
 import { resolveComment, ResolveCommentInput } from "./tools/resolve-comment.js";
 import { resolveConversation, ResolveConversationInput } from "./tools/resolve-conversation.js";
+import { getRateLimitStatus, GetRateLimitStatusInput } from "./tools/get-rate-limit-status.js";
+import { applySuggestion, ApplySuggestionInput } from "./tools/apply-suggestion.js";
+import { commitSuggestions, CommitSuggestionsInput } from "./tools/commit-suggestions.js";
+import { listResolutions, ListResolutionsInput } from "./tools/list-resolutions.js";
+import { getOutsideDiffComments, GetOutsideDiffCommentsInput } from "./tools/get-outside-diff-comments.js";
+import { getPrWalkthrough, GetPrWalkthroughInput } from "./tools/get-pr-walkthrough.js";
+import { getLinkedIssues, GetLinkedIssuesInput } from "./tools/get-linked-issues.js";
+import { coderabbitCommand, CodeRabbitCommandInput } from "./tools/coderabbit-command.js";
+import { askCodeRabbit, AskCodeRabbitInput } from "./tools/ask-coderabbit.js";
+import { waitForReview, WaitForReviewInput } from "./tools/wait-for-review.js";
+import { WaitProgress } from "./tools/polling.js";
+import { compareReviews, CompareReviewsInput } from "./tools/compare-reviews.js";
 import { GitHubClient } from "./github-client.js";
+import { ResolutionLedger } from "./resolution-ledger.js";
+import { startHttpServer } from "./http-server.js";
+import { PROMPTS } from "./prompts.js";
+import { RESOURCE_TEMPLATES, ResourceSubscriptions, parseResourceUri, readResource } from "./resources.js";
+
+const DEFAULT_HTTP_PORT = 3000;
+const DEFAULT_HTTP_HOST = "127.0.0.1";
+
+export interface RunOptions {
+  transport: "stdio" | "http";
+  port?: number;
+  host?: string;
+  /** Bearer token required on HTTP requests */
+  authToken?: string;
+}
 
 /**
  * Reads the version from package.json with robust error handling
  */
-function getPackageVersion(): string {
+export function getPackageVersion(): string {
   try {
     // Get the directory of the current module
     const __filename = fileURLToPath(import.meta.url);
@@ -54,86 +86,36 @@ function getPackageVersion(): string {
   }
 }
 
-// CodeRabbit review processing prompt template
-const CODERABBIT_REVIEW_PROMPT = `I'll process CodeRabbit reviews for this pull request systematically. Here's my optimized workflow:
-
-## **Phase 1: Discovery & Assessment**
-
-1. **Find open PR** for current branch
-2. **Get CodeRabbit review summary** from \`get_coderabbit_reviews\` (use summary data, avoid large comment responses)
-3. **Extract actionable items** from review body using actionable_comments count and summary
-4. **Create todo list** with prioritized issues from review summary (avoid calling \`get_review_comments\` initially due to token limits)
-
-## **Phase 2: Issue Classification**
-
-**Assessment Guidelines:**
-- **HIGH PRIORITY (Must Fix):**
-  - Security vulnerabilities
-  - Breaking changes or bugs
-  - TypeScript/compilation errors
-  - Performance issues with significant impact
-  - Logic errors or incorrect implementations
-
-- **MEDIUM PRIORITY (Should Fix):**
-  - Type safety improvements
-  - Performance optimizations (moderate impact)
-  - Code maintainability issues
-  - Missing error handling
-
-- **LOW PRIORITY (Nice to Have):**
-  - Style/formatting nitpicks
-  - Code organization suggestions
-  - Minor optimizations
-  - Documentation improvements
-
-- **SKIP (Not Actionable):**
-  - Purely subjective style preferences
-  - Suggestions without clear benefit
-  - Comments that require significant architecture changes
-  - Out-of-scope recommendations
-
-## **Phase 3: User Approval**
-
-Present the categorized todo list to the user for approval before starting work:
-- Show issue priorities and brief descriptions
-- Ask user to confirm which issues to address
-- Allow user to modify priorities or skip items
-
-## **Phase 4: Implementation**
-
-For approved issues:
-1. **Work on HIGH priority items first**
-2. **Use task tracking to monitor progress** (mark in_progress, then completed)
-3. **Launch each task as a subtask** using the Task tool for focused execution
-4. **Apply fixes systematically** by reading files and making targeted edits
-5. **Get individual comment details** only when needed using \`get_comment_details\`
-6. **Resolve each comment** with \`resolve_comment\` including fix details
-
-## **Phase 5: Completion**
-
-- Mark all todos as completed
-- Report final status: "Ready to merge" or list remaining issues
-- Provide summary of all fixes applied
-
-## **Error Handling for Large Responses:**
-
-If \`get_review_comments\` exceeds token limits:
-1. Extract actionable items from review summary instead
-2. Parse review body for specific file/line mentions
-3. Use targeted \`get_comment_details\` for individual issues
-4. Work from review metadata rather than full comment dump`;
-
 /**
  * CodeRabbit MCP Server
  * 
  * Provides tools for interacting with CodeRabbit AI reviews on GitHub pull requests
  */
 class CodeRabbitMCPServer {
-  private server: Server;
   private githubClient: GitHubClient;
+  private ledger: ResolutionLedger;
 
   constructor() {
-    this.server = new Server(
+    // Initialize GitHub client with environment variable
+    try {
+      this.githubClient = new GitHubClient();
+    } catch (error) {
+      console.error("Failed to initialize GitHub client:", error);
+      console.error("Please ensure GITHUB_PAT environment variable is set");
+      throw error;
+    }
+
+    this.ledger = new ResolutionLedger();
+  }
+
+  /**
+   * Create an MCP server instance with all handlers registered
+   *
+   * Each connection (stdio, or one HTTP session) gets its own instance; the GitHub client
+   * and its cache, rate limit state and the resolution ledger are shared between them.
+   */
+  private createServer(): Server {
+    const server = new Server(
       {
         name: "coderabbitai-mcp",
         version: getPackageVersion(),
@@ -142,107 +124,636 @@ class CodeRabbitMCPServer {
         capabilities: {
           tools: {},
           prompts: {},
+          resources: { subscribe: true },
         },
       }
     );
 
-    // Initialize GitHub client with environment variable
-    try {
-      this.githubClient = new GitHubClient();
-    } catch (error) {
-      console.error("Failed to initialize GitHub client:", error);
-      console.error("Please ensure GITHUB_PAT environment variable is set");
-      throw error;
-    }
+    const subscriptions = new ResourceSubscriptions(this.githubClient, uri => server.sendResourceUpdated({ uri }));
 
-    this.setupToolHandlers();
-    this.setupPromptHandlers();
-    this.setupErrorHandling();
-  }
+    this.setupToolHandlers(server);
+    this.setupPromptHandlers(server);
+    this.setupResourceHandlers(server, subscriptions);
 
-  private setupErrorHandling(): void {
-    this.server.onerror = (error) => {
+    server.onerror = (error) => {
       console.error("[MCP Error]", error);
     };
+    server.onclose = () => {
+      subscriptions.close();
+    };
 
-    process.on("SIGINT", async () => {
-      await this.server.close();
-      process.exit(0);
-    });
+    return server;
   }
 
-  private setupPromptHandlers(): void {
+  private setupPromptHandlers(server: Server): void {
     // Handle prompt listing
-    this.server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      return {
+        prompts: PROMPTS.map(({ name, description, arguments: promptArguments }) => ({
+          name,
+          description,
+          arguments: promptArguments
+        })) as Prompt[]
+      };
+    });
+
+    // Handle prompt execution
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const { name, arguments: args } = request.params;
+
+      const prompt = PROMPTS.find(candidate => candidate.name === name);
+      if (!prompt) {
+        throw new McpError(
+          ErrorCode.MethodNotFound,
+          `Unknown prompt: ${name}`
+        );
+      }
+
+      let promptText: string;
+      try {
+        promptText = await prompt.render(args ?? {}, { githubClient: this.githubClient, ledger: this.ledger });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            `Invalid arguments for prompt ${name}: ${error.errors.map(issue => `${issue.path.join(".")}: ${issue.message}`).join("; ")}`
+          );
+        }
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Prompt data unavailable: ${errorMessage}`
+        );
+      }
+
+      return {
+        messages: [
+          {
+            role: "user",
+            content: {
+              type: "text",
+              text: promptText
+            }
+          }
+        ]
+      };
+    });
+  }
+
+  private setupResourceHandlers(server: Server, subscriptions: ResourceSubscriptions): void {
+    // Concrete resources are only known once subscribed; everything else is reached through the templates
+    server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      return {
+        resources: subscriptions.list().map(uri => ({
+          uri,
+          name: uri.replace("coderabbit://", ""),
+          mimeType: "application/json"
+        }))
+      };
+    });
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return { resourceTemplates: RESOURCE_TEMPLATES };
+    });
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const { uri } = request.params;
+      const location = this.parseResourceUriOrThrow(uri);
+
+      try {
+        const result = await readResource(location, this.githubClient, this.ledger);
+        return {
+          contents: [
+            {
+              uri,
+              mimeType: "application/json",
+              text: JSON.stringify(result, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new McpError(ErrorCode.InternalError, `Resource read failed: ${errorMessage}`);
+      }
+    });
+
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      this.parseResourceUriOrThrow(request.params.uri);
+      try {
+        await subscriptions.subscribe(request.params.uri);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new McpError(ErrorCode.InternalError, `Subscribe failed: ${errorMessage}`);
+      }
+      return {};
+    });
+
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      subscriptions.unsubscribe(request.params.uri);
+      return {};
+    });
+  }
+
+  private parseResourceUriOrThrow(uri: string) {
+    try {
+      return parseResourceUri(uri);
+    } catch (error) {
+      throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private setupToolHandlers(server: Server): void {
+    // Handle tool listing
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
       return {
-        prompts: [
+        tools: [
+          {
+            name: "get_coderabbit_reviews",
+            description: "Get all CodeRabbit reviews for a specific GitHub pull request",
+            inputSchema: {
+              type: "object",
+              properties: {
+                owner: {
+                  type: "string",
+                  description: "Repository owner (username or organization)"
+                },
+                repo: {
+                  type: "string", 
+                  description: "Repository name"
+                },
+                pullNumber: {
+                  type: "number",
+                  description: "Pull request number"
+                },
+                limit: {
+                  type: "number",
+                  description: "Optional: maximum number of reviews per page",
+                  optional: true
+                },
+                cursor: {
+                  type: "string",
+                  description: "Optional: nextCursor from the previous page",
+                  optional: true
+                },
+                maxChars: {
+                  type: "number",
+                  description: "Optional: approximate size budget for the response in characters (at least 1000)",
+                  optional: true
+                }
+              },
+              required: ["owner", "repo", "pullNumber"]
+            }
+          },
+          {
+            name: "get_review_details",
+            description: "Get detailed information about a specific CodeRabbit review",
+            inputSchema: {
+              type: "object",
+              properties: {
+                owner: {
+                  type: "string",
+                  description: "Repository owner (username or organization)"
+                },
+                repo: {
+                  type: "string",
+                  description: "Repository name"
+                },
+                pullNumber: {
+                  type: "number",
+                  description: "Pull request number"
+                },
+                reviewId: {
+                  type: "number", 
+                  description: "Review ID"
+                },
+                limit: {
+                  type: "number",
+                  description: "Optional: maximum number of parsed comments per page",
+                  optional: true
+                },
+                cursor: {
+                  type: "string",
+                  description: "Optional: nextCursor from the previous page",
+                  optional: true
+                },
+                maxChars: {
+                  type: "number",
+                  description: "Optional: approximate size budget for the response in characters (at least 1000)",
+                  optional: true
+                }
+              },
+              required: ["owner", "repo", "pullNumber", "reviewId"]
+            }
+          },
+          {
+            name: "get_review_comments",
+            description: "Get individual line comments from CodeRabbit reviews, with optional filters and field projection",
+            inputSchema: {
+              type: "object",
+              properties: {
+                owner: {
+                  type: "string",
+                  description: "Repository owner (username or organization)"
+                },
+                repo: {
+                  type: "string",
+                  description: "Repository name"
+                },
+                pullNumber: {
+                  type: "number",
+                  description: "Pull request number"
+                },
+                reviewId: {
+                  type: "number",
+                  description: "Optional: specific review ID to filter comments",
+                  optional: true
+                },
+                severity: {
+                  type: "array",
+                  items: { type: "string", enum: ["error", "warning", "info", "suggestion"] },
+                  description: "Optional: only comments with these severities",
+                  optional: true
+                },
+                category: {
+                  type: "array",
+                  items: { type: "string" },
+                  description: "Optional: only comments in these categories (case-insensitive), e.g. [\"Potential Issue\", \"Security\"]",
+                  optional: true
+                },
+                path: {
+                  type: "string",
+                  description: "Optional: only comments on files matching this glob, e.g. \"src/**/*.ts\"",
+                  optional: true
+                },
+                unresolvedOnly: {
+                  type: "boolean",
+                  description: "Only return comments that are not resolved",
+                  default: false
+                },
+                excludeOutdated: {
+                  type: "boolean",
+                  description: "Leave out comments on lines that changed since the comment was made",
+                  default: false
+                },
+                sinceCommit: {
+                  type: "string",
+                  description: "Optional: only comments made on this PR commit or later ones",
+                  optional: true
+                },
+                fields: {
+                  type: "array",
+                  items: {
+                    type: "string",
+                    enum: [
+                      "id", "inline", "kind", "review_id", "title", "body", "path", "line_range", "side", "severity", "category", "description",
+                      "ai_prompt", "committable_suggestion", "html_url", "diff_hunk", "created_at", "updated_at",
+                      "is_resolved", "is_outdated", "resolution_source", "thread_id", "resolved_by", "local_resolution"
+                    ]
+                  },
+                  description: "Optional: only return these fields of each comment (id is always included)",
+                  optional: true
+                },
+                compact: {
+                  type: "boolean",
+                  description: "Drop the raw body and diff_hunk from each comment",
+                  default: false
+                },
+                includeReviewBodyItems: {
+                  type: "boolean",
+                  description: "Include nitpick and duplicate items that CodeRabbit only posts inside review bodies (returned with inline: false and a synthetic string ID)",
+                  default: true
+                },
+                limit: {
+                  type: "number",
+                  description: "Optional: maximum number of comments per page",
+                  optional: true
+                },
+                cursor: {
+                  type: "string",
+                  description: "Optional: nextCursor from the previous page",
+                  optional: true
+                },
+                maxChars: {
+                  type: "number",
+                  description: "Optional: approximate size budget for the response in characters (at least 1000)",
+                  optional: true
+                }
+              },
+              required: ["owner", "repo", "pullNumber"]
+            }
+          },
+          {
+            name: "get_comment_details",
+            description: "Get detailed information about a specific CodeRabbit comment including AI prompts",
+            inputSchema: {
+              type: "object",
+              properties: {
+                owner: {
+                  type: "string",
+                  description: "Repository owner (username or organization)"
+                },
+                repo: {
+                  type: "string",
+                  description: "Repository name"
+                },
+                commentId: {
+                  type: "number",
+                  description: "Comment ID"
+                },
+                reviewItemId: {
+                  type: "string",
+                  description: "Optional: ID of a review body item from get_review_comments, e.g. review-123-nitpick-1a2b3c4d (use instead of commentId; needs owner, repo and pullNumber)",
+                  optional: true
+                },
+                pullNumber: {
+                  type: "number",
+                  description: "Optional: pull request the comment belongs to (used if the direct lookup fails)",
+                  optional: true
+                },
+                commentUrl: {
+                  type: "string",
+                  description: "Optional: full comment html_url, e.g. https://github.com/owner/repo/pull/15#discussion_r123 (replaces owner, repo and commentId)",
+                  optional: true
+                },
+                scanRecentPRs: {
+                  type: "boolean",
+                  description: "Optional: fall back to scanning the 20 most recently updated PRs if the comment cannot be fetched directly",
+                  default: false
+                }
+              },
+              required: []
+            }
+          },
+          {
+            name: "resolve_comment",
+            description: "Mark a CodeRabbit comment, or a nitpick/duplicate item from a review body, as resolved or addressed",
+            inputSchema: {
+              type: "object",
+              properties: {
+                owner: {
+                  type: "string",
+                  description: "Repository owner (username or organization)"
+                },
+                repo: {
+                  type: "string",
+                  description: "Repository name"
+                },
+                commentId: {
+                  type: "number",
+                  description: "Comment ID"
+                },
+                pullNumber: {
+                  type: "number",
+                  description: "Optional: pull request the comment belongs to (used if the direct lookup fails)",
+                  optional: true
+                },
+                commentUrl: {
+                  type: "string",
+                  description: "Optional: full comment html_url, e.g. https://github.com/owner/repo/pull/15#discussion_r123 (replaces owner, repo and commentId)",
+                  optional: true
+                },
+                scanRecentPRs: {
+                  type: "boolean",
+                  description: "Optional: fall back to scanning the 20 most recently updated PRs if the comment cannot be fetched directly",
+                  default: false
+                },
+                resolution: {
+                  type: "string",
+                  enum: ["addressed", "wont_fix", "not_applicable"],
+                  description: "Resolution type",
+                  default: "addressed"
+                },
+                note: {
+                  type: "string",
+                  description: "Optional note about the resolution",
+                  optional: true
+                },
+                commitSha: {
+                  type: "string",
+                  description: "Optional: commit that addressed the comment (recorded in the local ledger; defaults to the PR head)",
+                  optional: true
+                },
+                replyMode: {
+                  type: "string",
+                  enum: ["thread", "pr_comment"],
+                  description: "Where to post notes: as a reply in the comment's review thread or as a top-level PR comment",
+                  default: "thread"
+                }
+              },
+              required: []
+            }
+          },
+          {
+            name: "resolve_conversation",
+            description: "Resolve or unresolve a CodeRabbit review conversation in GitHub",
+            inputSchema: {
+              type: "object",
+              properties: {
+                owner: {
+                  type: "string",
+                  description: "Repository owner (username or organization)"
+                },
+                repo: {
+                  type: "string",
+                  description: "Repository name"
+                },
+                commentId: {
+                  type: "number",
+                  description: "Comment ID of the conversation to resolve"
+                },
+                pullNumber: {
+                  type: "number",
+                  description: "Optional: pull request the comment belongs to (used if the direct lookup fails)",
+                  optional: true
+                },
+                commentUrl: {
+                  type: "string",
+                  description: "Optional: full comment html_url, e.g. https://github.com/owner/repo/pull/15#discussion_r123 (replaces owner, repo and commentId)",
+                  optional: true
+                },
+                scanRecentPRs: {
+                  type: "boolean",
+                  description: "Optional: fall back to scanning the 20 most recently updated PRs if the comment cannot be fetched directly",
+                  default: false
+                },
+                resolved: {
+                  type: "boolean",
+                  description: "Whether to resolve (true) or unresolve (false) the conversation",
+                  default: true
+                },
+                note: {
+                  type: "string",
+                  description: "Optional note about the resolution",
+                  optional: true
+                },
+                replyMode: {
+                  type: "string",
+                  enum: ["thread", "pr_comment"],
+                  description: "Where to post notes: as a reply in the comment's review thread or as a top-level PR comment",
+                  default: "thread"
+                }
+              },
+              required: []
+            }
+          },
           {
-            name: "coderabbit-review",
-            description: "Automated CodeRabbit review processing and issue resolution for the current branch",
-            arguments: [
-              {
-                name: "owner",
-                description: "Repository owner (username or organization)",
-                required: true
+            name: "get_rate_limit_status",
+            description: "Get the remaining GitHub API rate limit budget (check before starting a large batch of calls)",
+            inputSchema: {
+              type: "object",
+              properties: {
+                resources: {
+                  type: "array",
+                  items: { type: "string" },
+                  description: "Optional: only report these resources (e.g. core, graphql, search)",
+                  optional: true
+                }
               },
-              {
-                name: "repo", 
-                description: "Repository name",
-                required: true
+              required: []
+            }
+          },
+          {
+            name: "apply_suggestion",
+            description: "Apply a CodeRabbit committable suggestion to the commented lines in a local checkout (refuses if the lines changed since the review)",
+            inputSchema: {
+              type: "object",
+              properties: {
+                owner: {
+                  type: "string",
+                  description: "Repository owner (username or organization)"
+                },
+                repo: {
+                  type: "string",
+                  description: "Repository name"
+                },
+                commentId: {
+                  type: "number",
+                  description: "Comment ID"
+                },
+                pullNumber: {
+                  type: "number",
+                  description: "Optional: pull request the comment belongs to (used if the direct lookup fails)",
+                  optional: true
+                },
+                commentUrl: {
+                  type: "string",
+                  description: "Optional: full comment html_url, e.g. https://github.com/owner/repo/pull/15#discussion_r123 (replaces owner, repo and commentId)",
+                  optional: true
+                },
+                scanRecentPRs: {
+                  type: "boolean",
+                  description: "Optional: fall back to scanning the 20 most recently updated PRs if the comment cannot be fetched directly",
+                  default: false
+                },
+                repoPath: {
+                  type: "string",
+                  description: "Absolute path to the local checkout of the repository"
+                },
+                dryRun: {
+                  type: "boolean",
+                  description: "Return the unified diff without writing the file",
+                  default: false
+                }
+              },
+              required: ["repoPath"]
+            }
+          },
+          {
+            name: "commit_suggestions",
+            description: "Commit one or more CodeRabbit committable suggestions to the PR head branch as a single commit (no local checkout needed) and reply on each thread with the commit SHA",
+            inputSchema: {
+              type: "object",
+              properties: {
+                owner: {
+                  type: "string",
+                  description: "Repository owner (username or organization)"
+                },
+                repo: {
+                  type: "string",
+                  description: "Repository name"
+                },
+                pullNumber: {
+                  type: "number",
+                  description: "Pull request number"
+                },
+                commentIds: {
+                  type: "array",
+                  items: { type: "number" },
+                  description: "CodeRabbit comment IDs whose suggestions should be committed"
+                },
+                message: {
+                  type: "string",
+                  description: "Optional: commit subject line (the body always references each comment)",
+                  optional: true
+                },
+                expectedHeadSha: {
+                  type: "string",
+                  description: "Optional: abort unless the PR head is at this commit",
+                  optional: true
+                },
+                reply: {
+                  type: "boolean",
+                  description: "Reply on each comment thread with the commit SHA",
+                  default: true
+                }
+              },
+              required: ["owner", "repo", "pullNumber", "commentIds"]
+            }
+          },
+          {
+            name: "list_resolutions",
+            description: "Query the local ledger of comment resolutions made through this server",
+            inputSchema: {
+              type: "object",
+              properties: {
+                owner: {
+                  type: "string",
+                  description: "Optional: repository owner",
+                  optional: true
+                },
+                repo: {
+                  type: "string",
+                  description: "Optional: repository name",
+                  optional: true
+                },
+                pullNumber: {
+                  type: "number",
+                  description: "Optional: only resolutions for this pull request",
+                  optional: true
+                },
+                resolution: {
+                  type: "string",
+                  enum: ["addressed", "wont_fix", "not_applicable", "resolved", "unresolved"],
+                  description: "Optional: only resolutions of this type",
+                  optional: true
+                },
+                since: {
+                  type: "string",
+                  description: "Optional: only resolutions recorded at or after this ISO 8601 date",
+                  optional: true
+                },
+                until: {
+                  type: "string",
+                  description: "Optional: only resolutions recorded at or before this ISO 8601 date",
+                  optional: true
+                },
+                latestOnly: {
+                  type: "boolean",
+                  description: "Only return the latest entry for each comment",
+                  default: false
+                },
+                limit: {
+                  type: "number",
+                  description: "Maximum number of entries to return (newest first)",
+                  default: 100
+                }
               },
-              {
-                name: "pullNumber",
-                description: "Pull request number to process",
-                required: true
-              }
-            ]
-          }
-        ] as Prompt[]
-      };
-    });
-
-    // Handle prompt execution
-    this.server.setRequestHandler(GetPromptRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params;
-
-      if (name === "coderabbit-review") {
-        const owner = args?.owner || "";
-        const repo = args?.repo || "";
-        const pullNumber = args?.pullNumber || "";
-
-        const promptText = CODERABBIT_REVIEW_PROMPT + 
-          (owner && repo && pullNumber 
-            ? `\n\nLet me start the process for ${owner}/${repo}#${pullNumber}:`
-            : '\n\nPlease provide the repository owner, repo name, and pull request number to begin processing.');
-
-        return {
-          messages: [
-            {
-              role: "user",
-              content: {
-                type: "text",
-                text: promptText
-              }
+              required: []
             }
-          ]
-        };
-      }
-
-      throw new McpError(
-        ErrorCode.MethodNotFound,
-        `Unknown prompt: ${name}`
-      );
-    });
-  }
-
-  private setupToolHandlers(): void {
-    // Handle tool listing
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
-      return {
-        tools: [
+          },
           {
-            name: "get_coderabbit_reviews",
-            description: "Get all CodeRabbit reviews for a specific GitHub pull request",
+            name: "get_outside_diff_comments",
+            description: "Get CodeRabbit findings on lines outside the PR diff, which are only listed in review bodies",
             inputSchema: {
               type: "object",
               properties: {
@@ -251,20 +762,30 @@ class CodeRabbitMCPServer {
                   description: "Repository owner (username or organization)"
                 },
                 repo: {
-                  type: "string", 
+                  type: "string",
                   description: "Repository name"
                 },
                 pullNumber: {
                   type: "number",
                   description: "Pull request number"
+                },
+                reviewId: {
+                  type: "number",
+                  description: "Optional: only this review",
+                  optional: true
+                },
+                latestReviewOnly: {
+                  type: "boolean",
+                  description: "Only look at the most recent CodeRabbit review",
+                  default: false
                 }
               },
               required: ["owner", "repo", "pullNumber"]
             }
           },
           {
-            name: "get_review_details",
-            description: "Get detailed information about a specific CodeRabbit review",
+            name: "get_pr_walkthrough",
+            description: "Get CodeRabbit's walkthrough comment for a PR: summary, per-file changes table, Mermaid sequence diagrams, estimated review effort and poem",
             inputSchema: {
               type: "object",
               properties: {
@@ -279,18 +800,14 @@ class CodeRabbitMCPServer {
                 pullNumber: {
                   type: "number",
                   description: "Pull request number"
-                },
-                reviewId: {
-                  type: "number", 
-                  description: "Review ID"
                 }
               },
-              required: ["owner", "repo", "pullNumber", "reviewId"]
+              required: ["owner", "repo", "pullNumber"]
             }
           },
           {
-            name: "get_review_comments",
-            description: "Get all individual line comments from CodeRabbit reviews",
+            name: "get_linked_issues",
+            description: "Get CodeRabbit's assessment of whether a PR meets its linked issues' objectives (each marked addressed, not addressed or unclear) and the PRs it lists as possibly related",
             inputSchema: {
               type: "object",
               properties: {
@@ -305,19 +822,14 @@ class CodeRabbitMCPServer {
                 pullNumber: {
                   type: "number",
                   description: "Pull request number"
-                },
-                reviewId: {
-                  type: "number",
-                  description: "Optional: specific review ID to filter comments",
-                  optional: true
                 }
               },
               required: ["owner", "repo", "pullNumber"]
             }
           },
           {
-            name: "get_comment_details",
-            description: "Get detailed information about a specific CodeRabbit comment including AI prompts",
+            name: "coderabbit_command",
+            description: "Post an @coderabbitai command on a PR, e.g. to trigger a review, pause reviews or generate unit tests. Returns the posted comment ID and whether CodeRabbit will reply to it",
             inputSchema: {
               type: "object",
               properties: {
@@ -329,17 +841,25 @@ class CodeRabbitMCPServer {
                   type: "string",
                   description: "Repository name"
                 },
-                commentId: {
+                pullNumber: {
                   type: "number",
-                  description: "Comment ID"
+                  description: "Pull request number"
+                },
+                command: {
+                  type: "string",
+                  enum: [
+                    "review", "full review", "pause", "resume", "resolve", "summary",
+                    "generate docstrings", "generate unit tests", "configuration", "help"
+                  ],
+                  description: "Command to post: review (new commits only), full review (all files), pause/resume (automatic reviews), resolve (all CodeRabbit comments), summary (regenerate), generate docstrings, generate unit tests, configuration, help"
                 }
               },
-              required: ["owner", "repo", "commentId"]
+              required: ["owner", "repo", "pullNumber", "command"]
             }
           },
           {
-            name: "resolve_comment",
-            description: "Mark a CodeRabbit comment as resolved or addressed",
+            name: "ask_coderabbit",
+            description: "Ask CodeRabbit a question (or dispute a finding) as a reply in a review comment's thread, then wait for its answer and return it parsed, including any new suggestion or AI prompt. Sends progress notifications while waiting when the request has a progress token",
             inputSchema: {
               type: "object",
               properties: {
@@ -353,26 +873,39 @@ class CodeRabbitMCPServer {
                 },
                 commentId: {
                   type: "number",
-                  description: "Comment ID"
+                  description: "ID of a comment in the thread to ask in"
                 },
-                resolution: {
-                  type: "string",
-                  enum: ["addressed", "wont_fix", "not_applicable"],
-                  description: "Resolution type",
-                  default: "addressed"
+                pullNumber: {
+                  type: "number",
+                  description: "Optional: pull request the comment belongs to (used if the direct lookup fails)",
+                  optional: true
                 },
-                note: {
+                commentUrl: {
                   type: "string",
-                  description: "Optional note about the resolution",
+                  description: "Optional: full comment html_url, e.g. https://github.com/owner/repo/pull/15#discussion_r123 (replaces owner, repo and commentId)",
                   optional: true
+                },
+                scanRecentPRs: {
+                  type: "boolean",
+                  description: "Optional: fall back to scanning the 20 most recently updated PRs if the comment cannot be fetched directly",
+                  default: false
+                },
+                question: {
+                  type: "string",
+                  description: "Question to post; @coderabbitai is prepended unless it is already mentioned"
+                },
+                timeoutSeconds: {
+                  type: "number",
+                  description: "How long to wait for the reply (max 1800)",
+                  default: 180
                 }
               },
-              required: ["owner", "repo", "commentId"]
+              required: ["question"]
             }
           },
           {
-            name: "resolve_conversation",
-            description: "Resolve or unresolve a CodeRabbit review conversation in GitHub",
+            name: "wait_for_review",
+            description: "Wait until CodeRabbit has reviewed the PR's current head commit, then return that review. Stops early if CodeRabbit reports reviews are paused, skipped or rate limited. Sends progress notifications while waiting when the request has a progress token",
             inputSchema: {
               type: "object",
               properties: {
@@ -384,22 +917,49 @@ class CodeRabbitMCPServer {
                   type: "string",
                   description: "Repository name"
                 },
-                commentId: {
+                pullNumber: {
                   type: "number",
-                  description: "Comment ID of the conversation to resolve"
+                  description: "Pull request number"
                 },
-                resolved: {
-                  type: "boolean",
-                  description: "Whether to resolve (true) or unresolve (false) the conversation",
-                  default: true
+                timeoutSeconds: {
+                  type: "number",
+                  description: "How long to wait for the review (max 1800)",
+                  default: 600
+                }
+              },
+              required: ["owner", "repo", "pullNumber"]
+            }
+          },
+          {
+            name: "compare_reviews",
+            description: "Compare the findings of two CodeRabbit reviews on a PR (default: the last two) and classify each as new, fixed, persisting or duplicate_reposted, to see whether a push reduced the issue count",
+            inputSchema: {
+              type: "object",
+              properties: {
+                owner: {
+                  type: "string",
+                  description: "Repository owner (username or organization)"
                 },
-                note: {
+                repo: {
                   type: "string",
-                  description: "Optional note about the resolution",
+                  description: "Repository name"
+                },
+                pullNumber: {
+                  type: "number",
+                  description: "Pull request number"
+                },
+                baseReviewId: {
+                  type: "number",
+                  description: "Optional: the earlier review (default: the review before the head review)",
+                  optional: true
+                },
+                headReviewId: {
+                  type: "number",
+                  description: "Optional: the later review (default: the latest CodeRabbit review)",
                   optional: true
                 }
               },
-              required: ["owner", "repo", "commentId"]
+              required: ["owner", "repo", "pullNumber"]
             }
           }
         ] as Tool[]
@@ -407,8 +967,21 @@ class CodeRabbitMCPServer {
     });
 
     // Handle tool execution
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       const { name, arguments: args } = request.params;
+      const progressToken = request.params._meta?.progressToken;
+      // Waiting tools report each poll as progress when the client asked for it
+      const onProgress = progressToken === undefined
+        ? undefined
+        : (progress: WaitProgress) => extra.sendNotification({
+            method: "notifications/progress",
+            params: {
+              progressToken,
+              progress: progress.elapsed_seconds,
+              total: progress.timeout_seconds,
+              message: progress.message
+            }
+          });
 
       try {
         switch (name) {
@@ -440,7 +1013,7 @@ class CodeRabbitMCPServer {
 
           case "get_review_comments": {
             const input = args as GetReviewCommentsInput;
-            const result = await getReviewComments(input, this.githubClient);
+            const result = await getReviewComments(input, this.githubClient, this.ledger);
             return {
               content: [
                 {
@@ -453,7 +1026,7 @@ class CodeRabbitMCPServer {
 
           case "get_comment_details": {
             const input = args as GetCommentDetailsInput;
-            const result = await getCommentDetails(input, this.githubClient);
+            const result = await getCommentDetails(input, this.githubClient, this.ledger);
             return {
               content: [
                 {
@@ -466,7 +1039,7 @@ class CodeRabbitMCPServer {
 
           case "resolve_comment": {
             const input = args as ResolveCommentInput;
-            const result = await resolveComment(input, this.githubClient);
+            const result = await resolveComment(input, this.githubClient, this.ledger);
             return {
               content: [
                 {
@@ -479,7 +1052,150 @@ class CodeRabbitMCPServer {
 
           case "resolve_conversation": {
             const input = args as ResolveConversationInput;
-            const result = await resolveConversation(input, this.githubClient);
+            const result = await resolveConversation(input, this.githubClient, this.ledger);
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(result, null, 2)
+                }
+              ]
+            };
+          }
+
+          case "get_rate_limit_status": {
+            const input = args as GetRateLimitStatusInput;
+            const result = await getRateLimitStatus(input, this.githubClient);
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(result, null, 2)
+                }
+              ]
+            };
+          }
+
+          case "apply_suggestion": {
+            const input = args as ApplySuggestionInput;
+            const result = await applySuggestion(input, this.githubClient);
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(result, null, 2)
+                }
+              ]
+            };
+          }
+
+          case "commit_suggestions": {
+            const input = args as CommitSuggestionsInput;
+            const result = await commitSuggestions(input, this.githubClient);
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(result, null, 2)
+                }
+              ]
+            };
+          }
+
+          case "list_resolutions": {
+            const input = args as ListResolutionsInput;
+            const result = await listResolutions(input, this.ledger);
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(result, null, 2)
+                }
+              ]
+            };
+          }
+
+          case "get_outside_diff_comments": {
+            const input = args as GetOutsideDiffCommentsInput;
+            const result = await getOutsideDiffComments(input, this.githubClient);
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(result, null, 2)
+                }
+              ]
+            };
+          }
+
+          case "get_pr_walkthrough": {
+            const input = args as GetPrWalkthroughInput;
+            const result = await getPrWalkthrough(input, this.githubClient);
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(result, null, 2)
+                }
+              ]
+            };
+          }
+
+          case "get_linked_issues": {
+            const input = args as GetLinkedIssuesInput;
+            const result = await getLinkedIssues(input, this.githubClient);
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(result, null, 2)
+                }
+              ]
+            };
+          }
+
+          case "coderabbit_command": {
+            const input = args as CodeRabbitCommandInput;
+            const result = await coderabbitCommand(input, this.githubClient);
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(result, null, 2)
+                }
+              ]
+            };
+          }
+
+          case "ask_coderabbit": {
+            const input = args as AskCodeRabbitInput;
+            const result = await askCodeRabbit(input, this.githubClient, onProgress);
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(result, null, 2)
+                }
+              ]
+            };
+          }
+
+          case "wait_for_review": {
+            const input = args as WaitForReviewInput;
+            const result = await waitForReview(input, this.githubClient, onProgress);
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(result, null, 2)
+                }
+              ]
+            };
+          }
+
+          case "compare_reviews": {
+            const input = args as CompareReviewsInput;
+            const result = await compareReviews(input, this.githubClient);
             return {
               content: [
                 {
@@ -530,7 +1246,7 @@ class CodeRabbitMCPServer {
     }
   }
 
-  async run(): Promise<void> {
+  async run(options: RunOptions = { transport: "stdio" }): Promise<void> {
     // Validate GitHub connection on startup
     const isValid = await this.validateGitHubConnection();
     if (!isValid) {
@@ -538,8 +1254,35 @@ class CodeRabbitMCPServer {
       console.error("   Some features may not work properly");
     }
 
+    if (options.transport === "http") {
+      const httpServer = await startHttpServer(() => this.createServer(), {
+        port: options.port ?? DEFAULT_HTTP_PORT,
+        host: options.host ?? DEFAULT_HTTP_HOST,
+        authToken: options.authToken
+      });
+
+      process.on("SIGINT", async () => {
+        await httpServer.close();
+        process.exit(0);
+      });
+
+      const address = httpServer.httpServer.address();
+      const where = address && typeof address === "object" ? `${address.address}:${address.port}` : String(address);
+      console.error(`🚀 CodeRabbit MCP server listening on http://${where}/mcp (SSE fallback on /sse)`);
+      if (!options.authToken) {
+        console.error("⚠️  No CODERABBIT_HTTP_TOKEN set; HTTP connections from this machine are not authenticated");
+      }
+      return;
+    }
+
+    const server = this.createServer();
+    process.on("SIGINT", async () => {
+      await server.close();
+      process.exit(0);
+    });
+
     const transport = new StdioServerTransport();
-    await this.server.connect(transport);
+    await server.connect(transport);
     console.error("🚀 CodeRabbit MCP server running on stdio");
   }
 }
@@ -0,0 +1,143 @@
+import { z } from 'zod';
+import { readFile, writeFile } from 'fs/promises';
+import { resolve, relative, isAbsolute, sep } from 'path';
+import { GitHubClient } from '../github-client.js';
+import { parseCommentBody } from '../parser/index.js';
+import { CommentReferenceSchema, resolveCommentReference, locateComment, commentNotFoundMessage } from './comment-reference.js';
+import { locateSuggestionTarget, splitFileLines, joinFileLines, replaceLines, SuggestionTarget } from './suggestion-target.js';
+
+const ApplySuggestionSchema = CommentReferenceSchema.extend({
+  repoPath: z.string().min(1, "Local repository path is required"),
+  dryRun: z.boolean().default(false)
+});
+
+export type ApplySuggestionInput = z.infer<typeof ApplySuggestionSchema>;
+
+export interface ApplySuggestionResult {
+  success: boolean;
+  message: string;
+  comment_id: number;
+  applied: boolean;
+  dry_run: boolean;
+  path?: string;
+  line_range?: {
+    start: number;
+    end: number;
+  };
+  diff?: string;
+}
+
+const DIFF_CONTEXT_LINES = 3;
+
+/**
+ * Build a unified diff for replacing lines start..end (1-based, inclusive)
+ */
+function createUnifiedDiff(
+  path: string,
+  fileLines: string[],
+  start: number,
+  end: number,
+  replacement: string[]
+): string {
+  const contextStart = Math.max(1, start - DIFF_CONTEXT_LINES);
+  const contextEnd = Math.min(fileLines.length, end + DIFF_CONTEXT_LINES);
+  const before = fileLines.slice(contextStart - 1, start - 1);
+  const removed = fileLines.slice(start - 1, end);
+  const after = fileLines.slice(end, contextEnd);
+
+  const oldCount = before.length + removed.length + after.length;
+  const newCount = before.length + replacement.length + after.length;
+
+  return [
+    `--- a/${path}`,
+    `+++ b/${path}`,
+    `@@ -${contextStart},${oldCount} +${contextStart},${newCount} @@`,
+    ...before.map(line => ` ${line}`),
+    ...removed.map(line => `-${line}`),
+    ...replacement.map(line => `+${line}`),
+    ...after.map(line => ` ${line}`)
+  ].join('\n') + '\n';
+}
+
+/**
+ * Apply a CodeRabbit committable suggestion to a file in a local checkout
+ *
+ * The commented lines must still match the comment's diff_hunk, otherwise nothing is written.
+ */
+export async function applySuggestion(
+  input: ApplySuggestionInput,
+  githubClient: GitHubClient
+): Promise<ApplySuggestionResult> {
+  // Validate input
+  const validatedInput = ApplySuggestionSchema.parse(input);
+  const { repoPath, dryRun } = validatedInput;
+  const reference = resolveCommentReference(validatedInput);
+  const { commentId } = reference;
+
+  const failure = (message: string): ApplySuggestionResult => ({
+    success: false,
+    message,
+    comment_id: commentId,
+    applied: false,
+    dry_run: dryRun
+  });
+
+  try {
+    const result = await locateComment(reference, githubClient);
+    if (!result) {
+      return failure(commentNotFoundMessage(reference));
+    }
+
+    const { comment } = result;
+
+    if (comment.user.login !== 'coderabbitai[bot]') {
+      return failure(`Comment ${commentId} is not from CodeRabbit AI`);
+    }
+
+    const suggestion = parseCommentBody(comment.body).committable_suggestion;
+    if (suggestion === undefined) {
+      return failure(`Comment ${commentId} has no committable suggestion`);
+    }
+
+    // Refuse paths that escape the repository
+    const repoRoot = resolve(repoPath);
+    const filePath = resolve(repoRoot, comment.path);
+    const relativePath = relative(repoRoot, filePath);
+    if (relativePath.startsWith(`..${sep}`) || relativePath === '..' || isAbsolute(relativePath)) {
+      return failure(`Comment path ${comment.path} is outside ${repoRoot}`);
+    }
+
+    const content = await readFile(filePath, 'utf-8');
+    const { lines: fileLines, eol, trailingNewline } = splitFileLines(content);
+
+    let target: SuggestionTarget;
+    try {
+      target = locateSuggestionTarget(comment, suggestion, fileLines);
+    } catch (error) {
+      return failure(error instanceof Error ? error.message : String(error));
+    }
+
+    const diff = createUnifiedDiff(comment.path, fileLines, target.start, target.end, target.replacement);
+
+    if (!dryRun) {
+      const updated = replaceLines(fileLines, target);
+      await writeFile(filePath, joinFileLines(updated, eol, trailingNewline), 'utf-8');
+    }
+
+    return {
+      success: true,
+      message: dryRun
+        ? `Suggestion from comment ${commentId} would replace lines ${target.start}-${target.end} of ${comment.path}`
+        : `Applied suggestion from comment ${commentId} to lines ${target.start}-${target.end} of ${comment.path}`,
+      comment_id: commentId,
+      applied: !dryRun,
+      dry_run: dryRun,
+      path: filePath,
+      line_range: { start: target.start, end: target.end },
+      diff
+    };
+
+  } catch (error) {
+    return failure(`Failed to apply suggestion: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
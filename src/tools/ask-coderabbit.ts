@@ -0,0 +1,164 @@
+import { z } from 'zod';
+import { GitHubComment } from '../types.js';
+import { GitHubClient } from '../github-client.js';
+import { parseCommentBody } from '../parser/index.js';
+import {
+  CommentReferenceSchema,
+  resolveCommentReference,
+  locateComment,
+  commentNotFoundMessage
+} from './comment-reference.js';
+import { TimeoutSecondsSchema, WaitProgress, pollUntil } from './polling.js';
+
+const AskCodeRabbitSchema = CommentReferenceSchema.extend({
+  question: z.string().min(1, "Question is required"),
+  timeoutSeconds: TimeoutSecondsSchema.default(180)
+});
+
+export type AskCodeRabbitInput = z.infer<typeof AskCodeRabbitSchema>;
+
+/**
+ * CodeRabbit's answer in a review thread
+ */
+export interface CodeRabbitReply {
+  id: number;
+  body: string;
+  description: string;
+  committable_suggestion?: string;
+  ai_prompt?: string;
+  suggestion_blocks: string[];
+  diff_blocks: string[];
+  html_url: string;
+  created_at: string;
+}
+
+export interface AskCodeRabbitResult {
+  success: boolean;
+  message: string;
+  comment_id: number;
+  /** ID of the posted question */
+  question_id?: number;
+  question_url?: string;
+  reply?: CodeRabbitReply;
+  timed_out: boolean;
+  waited_seconds: number;
+  error_details?: string;
+}
+
+const CODERABBIT_MENTION = /@coderabbitai\b/i;
+
+function toReply(comment: GitHubComment): CodeRabbitReply {
+  const parsed = parseCommentBody(comment.body);
+  return {
+    id: comment.id,
+    body: comment.body,
+    description: parsed.description,
+    committable_suggestion: parsed.committable_suggestion,
+    ai_prompt: parsed.ai_prompt,
+    suggestion_blocks: parsed.suggestion_blocks,
+    diff_blocks: parsed.diff_blocks,
+    html_url: comment.html_url,
+    created_at: comment.created_at
+  };
+}
+
+/**
+ * Ask CodeRabbit a question in a review thread and wait for its answer
+ *
+ * The question is posted as a reply to the thread's first comment, mentioning `@coderabbitai`
+ * if it doesn't already. The PR's review comments are then polled with backoff until a
+ * CodeRabbit comment in the same thread with a higher ID than the question appears.
+ * `onProgress` is called after every poll, so callers can keep the request alive.
+ */
+export async function askCodeRabbit(
+  input: AskCodeRabbitInput,
+  githubClient: GitHubClient,
+  onProgress?: (progress: WaitProgress) => void | Promise<void>
+): Promise<AskCodeRabbitResult> {
+  // Validate input
+  const validatedInput = AskCodeRabbitSchema.parse(input);
+  const { question, timeoutSeconds } = validatedInput;
+  const reference = resolveCommentReference(validatedInput);
+  const { owner, repo, commentId } = reference;
+
+  // Kept outside the try block so a failure while waiting still reports the posted question
+  let posted: GitHubComment | undefined;
+  let postedAt = 0;
+
+  try {
+    const located = await locateComment(reference, githubClient);
+    if (!located) {
+      return {
+        success: false,
+        message: commentNotFoundMessage(reference),
+        comment_id: commentId,
+        timed_out: false,
+        waited_seconds: 0
+      };
+    }
+
+    const { comment, pullNumber } = located;
+    const threadRootId = comment.in_reply_to_id ?? comment.id;
+    const body = CODERABBIT_MENTION.test(question) ? question : `@coderabbitai ${question}`;
+
+    posted = await githubClient.replyToReviewComment(owner, repo, pullNumber, threadRootId, body);
+    postedAt = Date.now();
+    const questionId = posted.id;
+
+    const { value: reply, elapsed_ms } = await pollUntil(async () => {
+      const { items: comments } = await githubClient.getPullRequestComments(owner, repo, pullNumber);
+      return comments.find(candidate =>
+        candidate.user.login === 'coderabbitai[bot]' &&
+        candidate.in_reply_to_id === threadRootId &&
+        candidate.id > questionId
+      );
+    }, {
+      timeoutMs: timeoutSeconds * 1000,
+      onPending: (_attempt, elapsedMs) => onProgress?.({
+        elapsed_seconds: Math.round(elapsedMs / 1000),
+        timeout_seconds: timeoutSeconds,
+        message: `Waiting for CodeRabbit to reply in the review thread on PR #${pullNumber}`
+      })
+    });
+
+    const waitedSeconds = Math.round(elapsed_ms / 1000);
+
+    if (!reply) {
+      return {
+        success: true,
+        message: `Posted question in the review thread on PR #${pullNumber}, but CodeRabbit did not reply within ${timeoutSeconds}s; its answer may still arrive in the thread`,
+        comment_id: commentId,
+        question_id: posted.id,
+        question_url: posted.html_url,
+        timed_out: true,
+        waited_seconds: waitedSeconds
+      };
+    }
+
+    return {
+      success: true,
+      message: `CodeRabbit replied in the review thread on PR #${pullNumber} after ${waitedSeconds}s`,
+      comment_id: commentId,
+      question_id: posted.id,
+      question_url: posted.html_url,
+      reply: toReply(reply),
+      timed_out: false,
+      waited_seconds: waitedSeconds
+    };
+
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return {
+      success: false,
+      message: posted
+        ? `Posted question, but waiting for CodeRabbit's reply failed: ${reason}; its answer may still arrive in the thread`
+        : `Failed to ask CodeRabbit: ${reason}`,
+      comment_id: commentId,
+      question_id: posted?.id,
+      question_url: posted?.html_url,
+      timed_out: false,
+      waited_seconds: posted ? Math.round((Date.now() - postedAt) / 1000) : 0,
+      error_details: error instanceof Error ? error.stack : undefined
+    };
+  }
+}
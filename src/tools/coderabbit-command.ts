@@ -0,0 +1,79 @@
+import { z } from 'zod';
+import { GitHubClient } from '../github-client.js';
+
+/**
+ * `@coderabbitai` commands this tool can post. `replies` marks the ones CodeRabbit answers
+ * with a comment of its own; review commands answer with a review instead.
+ */
+const COMMANDS = {
+  'review': { replies: false, effect: 'Incremental review of commits not reviewed yet' },
+  'full review': { replies: false, effect: 'Review every file again from scratch' },
+  'pause': { replies: false, effect: 'Stop automatic reviews on this PR' },
+  'resume': { replies: false, effect: 'Restart automatic reviews on this PR' },
+  'resolve': { replies: false, effect: 'Resolve every CodeRabbit review comment' },
+  'summary': { replies: false, effect: 'Regenerate the summary in the PR description' },
+  'generate docstrings': { replies: true, effect: 'Generate docstrings for functions changed in this PR' },
+  'generate unit tests': { replies: true, effect: 'Generate unit tests for code changed in this PR' },
+  'configuration': { replies: true, effect: 'Show the CodeRabbit configuration in effect' },
+  'help': { replies: true, effect: 'List the available commands' }
+} as const;
+
+export type CodeRabbitCommandName = keyof typeof COMMANDS;
+
+const COMMAND_NAMES = Object.keys(COMMANDS) as [CodeRabbitCommandName, ...CodeRabbitCommandName[]];
+
+const CodeRabbitCommandSchema = z.object({
+  owner: z.string().min(1, "Repository owner is required"),
+  repo: z.string().min(1, "Repository name is required"),
+  pullNumber: z.number().int().positive("Pull request number must be positive"),
+  command: z.enum(COMMAND_NAMES)
+});
+
+export type CodeRabbitCommandInput = z.infer<typeof CodeRabbitCommandSchema>;
+
+export interface CodeRabbitCommandResult {
+  success: boolean;
+  message: string;
+  command: string;
+  /** ID of the posted command comment; CodeRabbit's reply quotes it */
+  comment_id?: number;
+  html_url?: string;
+  /** True when CodeRabbit answers with a comment, so the caller should watch for its reply */
+  reply_expected: boolean;
+  error_details?: string;
+}
+
+/**
+ * Post an `@coderabbitai <command>` comment on a pull request
+ */
+export async function coderabbitCommand(
+  input: CodeRabbitCommandInput,
+  githubClient: GitHubClient
+): Promise<CodeRabbitCommandResult> {
+  // Validate input
+  const validatedInput = CodeRabbitCommandSchema.parse(input);
+  const { owner, repo, pullNumber, command } = validatedInput;
+  const { replies, effect } = COMMANDS[command];
+
+  try {
+    const comment = await githubClient.addIssueComment(owner, repo, pullNumber, `@coderabbitai ${command}`);
+
+    return {
+      success: true,
+      message: `Posted "@coderabbitai ${command}" on PR #${pullNumber}: ${effect}`,
+      command,
+      comment_id: comment.id,
+      html_url: comment.html_url,
+      reply_expected: replies
+    };
+
+  } catch (error) {
+    return {
+      success: false,
+      message: `Failed to post CodeRabbit command: ${error instanceof Error ? error.message : String(error)}`,
+      command,
+      reply_expected: replies,
+      error_details: error instanceof Error ? error.stack : undefined
+    };
+  }
+}
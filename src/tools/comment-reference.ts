@@ -0,0 +1,131 @@
+import { z } from 'zod';
+import { GitHubComment } from '../types.js';
+import { GitHubClient, parseCommentUrl } from '../github-client.js';
+
+/**
+ * Input fields shared by tools that act on a single review comment.
+ * A comment can be identified by owner/repo/commentId or by its full html_url.
+ */
+export const CommentReferenceSchema = z.object({
+  owner: z.string().min(1, "Repository owner is required").optional(),
+  repo: z.string().min(1, "Repository name is required").optional(),
+  commentId: z.number().int().positive("Comment ID must be positive").optional(),
+  pullNumber: z.number().int().positive("Pull request number must be positive").optional(),
+  commentUrl: z.string().url("Comment URL must be a valid URL").optional(),
+  scanRecentPRs: z.boolean().default(false)
+});
+
+export type CommentReferenceInput = z.infer<typeof CommentReferenceSchema>;
+
+export interface CommentReference {
+  owner: string;
+  repo: string;
+  commentId: number;
+  pullNumber?: number;
+  scanRecentPRs: boolean;
+}
+
+/**
+ * Normalize a validated comment reference, filling missing fields from commentUrl
+ */
+export function resolveCommentReference(input: CommentReferenceInput): CommentReference {
+  const fromUrl = input.commentUrl ? parseCommentUrl(input.commentUrl) : null;
+
+  if (input.commentUrl && !fromUrl) {
+    throw new Error(`Unrecognized comment URL: ${input.commentUrl}`);
+  }
+
+  const owner = input.owner ?? fromUrl?.owner;
+  const repo = input.repo ?? fromUrl?.repo;
+  const commentId = input.commentId ?? fromUrl?.commentId;
+
+  if (!owner || !repo || !commentId) {
+    throw new Error('Either owner, repo and commentId or a commentUrl is required');
+  }
+
+  return {
+    owner,
+    repo,
+    commentId,
+    pullNumber: input.pullNumber ?? fromUrl?.pullNumber,
+    scanRecentPRs: input.scanRecentPRs
+  };
+}
+
+/**
+ * Fetch the referenced comment and the number of the pull request it belongs to
+ */
+export async function locateComment(
+  reference: CommentReference,
+  githubClient: GitHubClient
+): Promise<{ comment: GitHubComment; pullNumber: number } | null> {
+  return githubClient.findCommentById(reference.owner, reference.repo, reference.commentId, {
+    pullNumber: reference.pullNumber,
+    scanRecentPRs: reference.scanRecentPRs
+  });
+}
+
+/**
+ * Message used when a referenced comment cannot be found
+ */
+export function commentNotFoundMessage(reference: CommentReference): string {
+  const scope = reference.pullNumber
+    ? `PR #${reference.pullNumber}`
+    : `${reference.owner}/${reference.repo}`;
+  const hint = reference.scanRecentPRs || reference.pullNumber
+    ? ''
+    : ' (pass pullNumber or scanRecentPRs to search further)';
+  return `Comment with ID ${reference.commentId} not found in ${scope}${hint}`;
+}
+
+/**
+ * Where resolution notes are posted: as a reply in the comment's review thread (default)
+ * or as a top-level pull request comment
+ */
+export const ReplyModeSchema = z.enum(['thread', 'pr_comment']).default('thread');
+
+export type ReplyMode = z.infer<typeof ReplyModeSchema>;
+
+/**
+ * Post a note about a review comment according to the reply mode
+ * Thread replies always target the thread's first comment, as GitHub requires.
+ */
+export async function postCommentNote(
+  githubClient: GitHubClient,
+  reference: CommentReference,
+  pullNumber: number,
+  comment: GitHubComment,
+  body: string,
+  replyMode: ReplyMode,
+  heading: string = 'Re: CodeRabbit comment'
+): Promise<void> {
+  const { owner, repo } = reference;
+
+  if (replyMode === 'thread') {
+    await githubClient.replyToReviewComment(owner, repo, pullNumber, comment.in_reply_to_id ?? comment.id, body);
+  } else {
+    await githubClient.addIssueComment(
+      owner,
+      repo,
+      pullNumber,
+      `**${heading} [#${comment.id}](${comment.html_url})**\n\n${body}`
+    );
+  }
+}
+
+/**
+ * Current head commit of a pull request, or undefined if it cannot be fetched
+ */
+export async function getHeadSha(
+  githubClient: GitHubClient,
+  owner: string,
+  repo: string,
+  pullNumber: number
+): Promise<string | undefined> {
+  try {
+    const pr = await githubClient.getPullRequest(owner, repo, pullNumber);
+    return pr.head.sha;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,288 @@
+import { z } from 'zod';
+import { GitHubComment } from '../types.js';
+import { GitHubClient, GitTreeEntry, parsePullNumberFromUrl } from '../github-client.js';
+import { parseCommentBody } from '../parser/index.js';
+import { locateSuggestionTarget, findOverlap, splitFileLines, joinFileLines, SuggestionTarget } from './suggestion-target.js';
+
+const CommitSuggestionsSchema = z.object({
+  owner: z.string().min(1, "Repository owner is required"),
+  repo: z.string().min(1, "Repository name is required"),
+  pullNumber: z.number().int().positive("Pull request number must be positive"),
+  commentIds: z.array(z.number().int().positive("Comment ID must be positive")).min(1, "At least one comment ID is required"),
+  message: z.string().min(1).optional(),
+  expectedHeadSha: z.string().min(7).optional(),
+  reply: z.boolean().default(true)
+});
+
+export type CommitSuggestionsInput = z.infer<typeof CommitSuggestionsSchema>;
+
+export interface CommittedSuggestion {
+  comment_id: number;
+  path: string;
+  line_range: {
+    start: number;
+    end: number;
+  };
+  reply_id?: number;
+  reply_error?: string;
+}
+
+export interface CommitSuggestionsResult {
+  success: boolean;
+  message: string;
+  commit_sha?: string;
+  commit_url?: string;
+  branch?: string;
+  suggestions: CommittedSuggestion[];
+}
+
+interface PlannedSuggestion {
+  comment: GitHubComment;
+  target: SuggestionTarget;
+}
+
+/**
+ * Build the commit message, referencing every applied comment
+ */
+function buildCommitMessage(planned: PlannedSuggestion[], title?: string): string {
+  const subject = title || (planned.length === 1
+    ? `Apply CodeRabbit suggestion to ${planned[0].comment.path}`
+    : `Apply ${planned.length} CodeRabbit suggestions`);
+
+  const lines = planned.map(({ comment, target }) =>
+    `- ${comment.path}:${target.start}-${target.end} (${comment.html_url})`
+  );
+
+  return `${subject}\n\n${lines.join('\n')}`;
+}
+
+/**
+ * Look up the tree entries of the given file paths, fetching only the directories on their way
+ * instead of the whole recursive tree
+ */
+async function getTreeEntries(
+  githubClient: GitHubClient,
+  owner: string,
+  repo: string,
+  rootTreeSha: string,
+  paths: string[]
+): Promise<Map<string, GitTreeEntry>> {
+  const directories = new Map<string, Promise<GitTreeEntry[]>>();
+  const listDirectory = (directory: string, treeSha: string): Promise<GitTreeEntry[]> => {
+    let listing = directories.get(directory);
+    if (!listing) {
+      listing = githubClient.getGitTree(owner, repo, treeSha).then(tree => {
+        if (tree.truncated) {
+          throw new Error(`Git tree of ${directory || 'the repository root'} is too large to read`);
+        }
+        return tree.tree;
+      });
+      directories.set(directory, listing);
+    }
+    return listing;
+  };
+
+  const entries = new Map<string, GitTreeEntry>();
+  for (const path of paths) {
+    const segments = path.split('/');
+    const name = segments.pop()!;
+    let directory = '';
+    let treeSha: string | null | undefined = rootTreeSha;
+
+    for (const segment of segments) {
+      const subtree: GitTreeEntry | undefined = (await listDirectory(directory, treeSha)).find(entry => entry.path === segment && entry.type === 'tree');
+      directory = directory ? `${directory}/${segment}` : segment;
+      treeSha = subtree?.sha;
+      if (!treeSha) break;
+    }
+
+    const entry = treeSha ? (await listDirectory(directory, treeSha)).find(entry => entry.path === name) : undefined;
+    if (entry) {
+      entries.set(path, entry);
+    }
+  }
+  return entries;
+}
+
+/**
+ * Commit one or more CodeRabbit suggestions to a pull request's head branch
+ *
+ * All suggestions go into a single commit built with the Git Data API (blobs, trees, commits, refs),
+ * like the "Commit suggestion" button in the GitHub UI. Nothing is written if any suggestion no longer
+ * applies, two suggestions overlap, or the branch head moved while the commit was being built.
+ */
+export async function commitSuggestions(
+  input: CommitSuggestionsInput,
+  githubClient: GitHubClient
+): Promise<CommitSuggestionsResult> {
+  // Validate input
+  const validatedInput = CommitSuggestionsSchema.parse(input);
+  const { owner, repo, pullNumber, commentIds, message, expectedHeadSha, reply } = validatedInput;
+
+  const failure = (reason: string): CommitSuggestionsResult => ({
+    success: false,
+    message: reason,
+    suggestions: []
+  });
+
+  try {
+    const pr = await githubClient.getPullRequest(owner, repo, pullNumber);
+    if (pr.state !== 'open') {
+      return failure(`PR #${pullNumber} is ${pr.state}`);
+    }
+    if (!pr.head.repo) {
+      return failure(`The head repository of PR #${pullNumber} no longer exists`);
+    }
+
+    const headSha = pr.head.sha;
+    const branch = pr.head.ref;
+    const headOwner = pr.head.repo.owner.login;
+    const headRepo = pr.head.repo.name;
+
+    if (expectedHeadSha && !headSha.startsWith(expectedHeadSha)) {
+      return failure(`PR #${pullNumber} head is ${headSha}, expected ${expectedHeadSha}`);
+    }
+
+    // Collect the suggestions, grouped by file
+    const comments: GitHubComment[] = [];
+    for (const commentId of new Set(commentIds)) {
+      const comment = await githubClient.getComment(owner, repo, commentId);
+      if (comment.user.login !== 'coderabbitai[bot]') {
+        return failure(`Comment ${commentId} is not from CodeRabbit AI`);
+      }
+      if (parsePullNumberFromUrl(comment.pull_request_url) !== pullNumber) {
+        return failure(`Comment ${commentId} does not belong to PR #${pullNumber}`);
+      }
+      comments.push(comment);
+    }
+
+    const byPath = new Map<string, GitHubComment[]>();
+    for (const comment of comments) {
+      byPath.set(comment.path, [...(byPath.get(comment.path) || []), comment]);
+    }
+
+    const updatedFiles = new Map<string, string>();
+    const planned: PlannedSuggestion[] = [];
+
+    for (const [path, pathComments] of byPath) {
+      const content = await githubClient.getFileContent(headOwner, headRepo, path, headSha);
+      const { lines, eol, trailingNewline } = splitFileLines(content);
+
+      const filePlan: PlannedSuggestion[] = [];
+      for (const comment of pathComments) {
+        const suggestion = parseCommentBody(comment.body).committable_suggestion;
+        if (suggestion === undefined) {
+          return failure(`Comment ${comment.id} has no committable suggestion`);
+        }
+        try {
+          filePlan.push({ comment, target: locateSuggestionTarget(comment, suggestion, lines) });
+        } catch (error) {
+          return failure(`Comment ${comment.id}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+
+      const overlap = findOverlap(filePlan);
+      if (overlap) {
+        return failure(
+          `Suggestions from comments ${overlap[0].comment.id} and ${overlap[1].comment.id} overlap in ${path}`
+        );
+      }
+
+      // Apply bottom-up so earlier replacements don't shift later line numbers
+      let updated = lines;
+      for (const { target } of [...filePlan].sort((a, b) => b.target.start - a.target.start)) {
+        updated = [...updated.slice(0, target.start - 1), ...target.replacement, ...updated.slice(target.end)];
+      }
+
+      updatedFiles.set(path, joinFileLines(updated, eol, trailingNewline));
+      planned.push(...filePlan);
+    }
+
+    // Build blobs, tree and commit on top of the current head
+    const headCommit = await githubClient.getGitCommit(headOwner, headRepo, headSha);
+    const existingEntries = await getTreeEntries(
+      githubClient, headOwner, headRepo, headCommit.tree.sha, [...updatedFiles.keys()]
+    );
+
+    // Symlinks and submodules would turn into regular files if their content were replaced
+    for (const [path, entry] of existingEntries) {
+      if (entry.mode !== '100644' && entry.mode !== '100755') {
+        return failure(`${path} is not a regular file (mode ${entry.mode}); suggestions can only be committed to regular files`);
+      }
+    }
+
+    const entries: GitTreeEntry[] = [];
+    for (const [path, content] of updatedFiles) {
+      const blob = await githubClient.createBlob(headOwner, headRepo, content);
+      entries.push({
+        path,
+        mode: existingEntries.get(path)?.mode ?? '100644',
+        type: 'blob',
+        sha: blob.sha
+      });
+    }
+
+    const tree = await githubClient.createTree(headOwner, headRepo, headCommit.tree.sha, entries);
+    const commit = await githubClient.createCommit(
+      headOwner,
+      headRepo,
+      buildCommitMessage(planned, message),
+      tree.sha,
+      [headSha]
+    );
+
+    // Refuse to move the branch if someone pushed in the meantime
+    const currentHead = await githubClient.getBranchHead(headOwner, headRepo, branch);
+    if (currentHead !== headSha) {
+      return failure(`Branch ${branch} moved from ${headSha} to ${currentHead}; no changes were pushed`);
+    }
+
+    try {
+      await githubClient.updateBranchHead(headOwner, headRepo, branch, commit.sha);
+    } catch (error) {
+      return failure(
+        `Branch ${branch} could not be fast-forwarded to ${commit.sha} (did the head move?): ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    // Reply on each thread with the commit that applied it
+    const results: CommittedSuggestion[] = [];
+    for (const { comment, target } of planned) {
+      const result: CommittedSuggestion = {
+        comment_id: comment.id,
+        path: comment.path,
+        line_range: { start: target.start, end: target.end }
+      };
+
+      if (reply) {
+        try {
+          // GitHub only accepts replies to the thread's first comment
+          const replyComment = await githubClient.replyToReviewComment(
+            owner,
+            repo,
+            pullNumber,
+            comment.in_reply_to_id ?? comment.id,
+            `✅ Suggestion committed in ${commit.sha}\n\n*Committed via CodeRabbit MCP*`
+          );
+          result.reply_id = replyComment.id;
+        } catch (error) {
+          result.reply_error = error instanceof Error ? error.message : String(error);
+        }
+      }
+
+      results.push(result);
+    }
+
+    return {
+      success: true,
+      message: `Committed ${planned.length} suggestion(s) to ${branch} as ${commit.sha}`,
+      commit_sha: commit.sha,
+      commit_url: commit.html_url,
+      branch,
+      suggestions: results
+    };
+
+  } catch (error) {
+    return failure(`Failed to commit suggestions: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
@@ -0,0 +1,248 @@
+import { z } from 'zod';
+import { CappedResult, CodeRabbitComment, GitHubComment, GitHubReview, GitHubReviewThread } from '../types.js';
+import { GitHubClient } from '../github-client.js';
+import { parseReviewBody, withReviewItemIds } from '../parser/index.js';
+import { parseCoderabbitComment, reviewItemToComment, getReviewThreadIndex } from './get-comments.js';
+
+const CompareReviewsSchema = z.object({
+  owner: z.string().min(1, "Repository owner is required"),
+  repo: z.string().min(1, "Repository name is required"),
+  pullNumber: z.number().int().positive("Pull request number must be positive"),
+  baseReviewId: z.number().int().positive("Review ID must be positive").optional(),
+  headReviewId: z.number().int().positive("Review ID must be positive").optional()
+});
+
+export type CompareReviewsInput = z.infer<typeof CompareReviewsSchema>;
+
+export type FindingStatus = "new" | "fixed" | "persisting" | "duplicate_reposted";
+
+export interface FindingComparison {
+  status: FindingStatus;
+  path: string;
+  /** Lines in the head review, or in the base review for fixed findings */
+  line_range: { start: number; end: number };
+  title?: string;
+  severity: string;
+  category: string;
+  /** Finding ID in the base review */
+  base_id?: number | string;
+  /** Finding ID in the head review */
+  head_id?: number | string;
+}
+
+export interface CompareReviewsResult extends CappedResult {
+  base_review: { id: number; submitted_at: string; commit_id: string; findings: number };
+  head_review: { id: number; submitted_at: string; commit_id: string; findings: number };
+  counts: Record<FindingStatus, number>;
+  findings: FindingComparison[];
+}
+
+interface ReviewFindings {
+  review: GitHubReview;
+  findings: CodeRabbitComment[];
+  /** Files the review looked at, from its "📒 Files selected for processing" section */
+  filesReviewed: Set<string>;
+}
+
+/**
+ * Inline comments that open a thread in the review, plus its nitpick, duplicate and outside-diff items
+ */
+function collectFindings(
+  review: GitHubReview,
+  comments: GitHubComment[],
+  threads: Map<number, GitHubReviewThread> | null
+): ReviewFindings {
+  const parsed = parseReviewBody(review.body);
+
+  const inline = comments
+    .filter(comment =>
+      comment.pull_request_review_id === review.id &&
+      comment.user.login === 'coderabbitai[bot]' &&
+      !comment.in_reply_to_id
+    )
+    .map(comment => ({ ...parseCoderabbitComment(comment, threads?.get(comment.id)), review_id: review.id }));
+
+  const bodyItems = withReviewItemIds(review.id, parsed.items)
+    .filter(item => item.kind !== 'additional')
+    .map(item => reviewItemToComment(review, item));
+
+  return {
+    review,
+    findings: [...inline, ...bodyItems],
+    filesReviewed: new Set(parsed.files_reviewed)
+  };
+}
+
+function normalizeText(finding: CodeRabbitComment): string {
+  return (finding.title || finding.description)
+    .toLowerCase()
+    .replace(/[`*_~[\](){}.,:;!?'"]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Jaccard similarity of the word sets of two normalized texts
+ */
+function textSimilarity(a: string, b: string): number {
+  const wordsA = new Set(a.split(' '));
+  const wordsB = new Set(b.split(' '));
+  const shared = [...wordsA].filter(word => wordsB.has(word)).length;
+  const union = new Set([...wordsA, ...wordsB]).size;
+  return union === 0 ? 0 : shared / union;
+}
+
+const SIMILARITY_THRESHOLD = 0.6;
+
+/**
+ * Pair head findings with base findings on the same file
+ *
+ * Identical normalized text is tried first, then similar text; among candidates the one
+ * whose line range moved least wins, since code above a finding often shifts it.
+ */
+function matchFindings(base: CodeRabbitComment[], head: CodeRabbitComment[]): Map<CodeRabbitComment, CodeRabbitComment> {
+  const matches = new Map<CodeRabbitComment, CodeRabbitComment>();
+  const unmatchedBase = new Set(base);
+  const text = new Map([...base, ...head].map(finding => [finding, normalizeText(finding)]));
+
+  const passes: Array<(a: string, b: string) => boolean> = [
+    (a, b) => a === b,
+    (a, b) => textSimilarity(a, b) >= SIMILARITY_THRESHOLD
+  ];
+
+  for (const isMatch of passes) {
+    for (const finding of head) {
+      if (matches.has(finding)) continue;
+
+      const candidates = [...unmatchedBase].filter(candidate =>
+        candidate.path === finding.path && isMatch(text.get(candidate)!, text.get(finding)!)
+      );
+      if (candidates.length === 0) continue;
+
+      const closest = candidates.reduce((a, b) =>
+        Math.abs(a.line_range.start - finding.line_range.start) <= Math.abs(b.line_range.start - finding.line_range.start) ? a : b
+      );
+      matches.set(finding, closest);
+      unmatchedBase.delete(closest);
+    }
+  }
+
+  return matches;
+}
+
+function describe(status: FindingStatus, finding: CodeRabbitComment): FindingComparison {
+  return {
+    status,
+    path: finding.path,
+    line_range: finding.line_range,
+    title: finding.title,
+    severity: finding.severity,
+    category: finding.category
+  };
+}
+
+function reviewSummary({ review, findings }: ReviewFindings): CompareReviewsResult['base_review'] {
+  return {
+    id: review.id,
+    submitted_at: review.submitted_at,
+    commit_id: review.commit_id,
+    findings: findings.length
+  };
+}
+
+/**
+ * Compare the findings of two CodeRabbit reviews on the same PR
+ *
+ * Each finding is classified as:
+ * - new: only in the head review
+ * - fixed: only in the base review, and its thread is resolved or outdated (inline comments) or
+ *   the head review looked at its file again (review body items)
+ * - persisting: in both, or only in the base review with an open thread or on a file the head
+ *   review didn't re-review
+ *
+ * CodeRabbit doesn't repost open inline comments on incremental reviews, so their thread state
+ * decides; body items have no thread, so for them silence on a re-reviewed file counts as fixed.
+ * - duplicate_reposted: listed in the head review's "♻️ Duplicate comments" section
+ *
+ * Defaults to the last two CodeRabbit reviews.
+ */
+export async function compareReviews(
+  input: CompareReviewsInput,
+  githubClient: GitHubClient
+): Promise<CompareReviewsResult> {
+  // Validate input
+  const validatedInput = CompareReviewsSchema.parse(input);
+  const { owner, repo, pullNumber, baseReviewId, headReviewId } = validatedInput;
+
+  try {
+    const { items: reviews, truncated: reviewsTruncated } = await githubClient.getPullRequestReviews(owner, repo, pullNumber);
+    const coderabbitReviews = reviews
+      .filter(review => review.user.login === 'coderabbitai[bot]')
+      .sort((a, b) => a.submitted_at.localeCompare(b.submitted_at));
+
+    const findReview = (id: number) => {
+      const review = coderabbitReviews.find(candidate => candidate.id === id);
+      if (!review) {
+        throw new Error(`CodeRabbit review with ID ${id} not found in PR #${pullNumber}`);
+      }
+      return review;
+    };
+
+    const headReview = headReviewId ? findReview(headReviewId) : coderabbitReviews[coderabbitReviews.length - 1];
+    const baseReview = baseReviewId
+      ? findReview(baseReviewId)
+      : coderabbitReviews[coderabbitReviews.indexOf(headReview) - 1];
+
+    if (!headReview || !baseReview) {
+      throw new Error(`PR #${pullNumber} needs at least two CodeRabbit reviews to compare`);
+    }
+    if (baseReview.id === headReview.id) {
+      throw new Error('Base and head review must be different');
+    }
+
+    const { items: comments, truncated: commentsTruncated } = await githubClient.getPullRequestComments(owner, repo, pullNumber);
+    const threads = await getReviewThreadIndex(githubClient, owner, repo, pullNumber);
+    const base = collectFindings(baseReview, comments, threads);
+    const head = collectFindings(headReview, comments, threads);
+
+    const matches = matchFindings(base.findings, head.findings);
+    const matchedBase = new Set(matches.values());
+    const findings: FindingComparison[] = [];
+
+    for (const finding of head.findings) {
+      const previous = matches.get(finding);
+      const status: FindingStatus = finding.kind === 'duplicate'
+        ? 'duplicate_reposted'
+        : previous ? 'persisting' : 'new';
+      findings.push({ ...describe(status, finding), base_id: previous?.id, head_id: finding.id });
+    }
+
+    for (const finding of base.findings) {
+      if (matchedBase.has(finding)) continue;
+
+      // An incremental review only covers changed files, so silence elsewhere isn't a fix
+      const fixed = finding.inline
+        ? finding.is_resolved || finding.is_outdated
+        : head.filesReviewed.size === 0 || head.filesReviewed.has(finding.path);
+      findings.push({ ...describe(fixed ? 'fixed' : 'persisting', finding), base_id: finding.id });
+    }
+
+    findings.sort((a, b) => a.path.localeCompare(b.path) || a.line_range.start - b.line_range.start);
+
+    const counts: Record<FindingStatus, number> = { new: 0, fixed: 0, persisting: 0, duplicate_reposted: 0 };
+    for (const finding of findings) {
+      counts[finding.status]++;
+    }
+
+    return {
+      base_review: reviewSummary(base),
+      head_review: reviewSummary(head),
+      counts,
+      findings,
+      results_capped: reviewsTruncated || commentsTruncated
+    };
+
+  } catch (error) {
+    throw new Error(`Failed to compare reviews: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
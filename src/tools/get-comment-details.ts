@@ -1,40 +1,24 @@
 import { z } from 'zod';
 import { GitHubComment, CodeRabbitCommentDetails } from '../types.js';
 import { GitHubClient } from '../github-client.js';
+import { parseCommentBody, ParsedCommentBody } from '../parser/index.js';
+import { ResolutionLedger } from '../resolution-ledger.js';
+import { parseCoderabbitComment, withLedgerState, getReviewThreadIndex } from './get-comments.js';
+import { CommentReferenceSchema, resolveCommentReference, locateComment, commentNotFoundMessage } from './comment-reference.js';
 
-const GetCommentDetailsSchema = z.object({
-  owner: z.string().min(1, "Repository owner is required"),
-  repo: z.string().min(1, "Repository name is required"),
-  commentId: z.number().int().positive("Comment ID must be positive")
-});
+const GetCommentDetailsSchema = CommentReferenceSchema;
 
 export type GetCommentDetailsInput = z.infer<typeof GetCommentDetailsSchema>;
 
 /**
- * Extract fix examples from CodeRabbit comment body
+ * Collect fix examples: committable suggestions, diffs and language-tagged code blocks
  */
-function extractFixExamples(body: string): string[] {
-  const examples: string[] = [];
+function extractFixExamples(parsed: ParsedCommentBody): string[] {
+  const codeExamples = parsed.code_blocks
+    .filter(block => block.language && block.language !== 'suggestion' && block.language !== 'diff')
+    .map(block => block.code);
   
-  // Extract committable suggestions
-  const committableMatches = body.matchAll(/📝 Committable suggestion[\s\S]*?```suggestion\n([\s\S]*?)\n```/g);
-  for (const match of committableMatches) {
-    examples.push(match[1].trim());
-  }
-  
-  // Extract diff suggestions
-  const diffMatches = body.matchAll(/```diff\n([\s\S]*?)\n```/g);
-  for (const match of diffMatches) {
-    examples.push(match[1].trim());
-  }
-  
-  // Extract code block examples
-  const codeMatches = body.matchAll(/```(?:javascript|typescript|python|java|go|rust|cpp|c)\n([\s\S]*?)\n```/g);
-  for (const match of codeMatches) {
-    examples.push(match[1].trim());
-  }
-  
-  return examples;
+  return [...parsed.suggestion_blocks, ...parsed.diff_blocks, ...codeExamples];
 }
 
 /**
@@ -90,109 +74,50 @@ function findRelatedComments(
  */
 export async function getCommentDetails(
   input: GetCommentDetailsInput,
-  githubClient: GitHubClient
+  githubClient: GitHubClient,
+  ledger: ResolutionLedger
 ): Promise<CodeRabbitCommentDetails> {
   // Validate input
   const validatedInput = GetCommentDetailsSchema.parse(input);
-  const { owner, repo, commentId } = validatedInput;
   
   try {
-    // Use the GitHub client's helper method to find the comment across recent PRs
-    const result = await githubClient.findCommentInRecentPRs(owner, repo, commentId);
+    const reference = resolveCommentReference(validatedInput);
+    const { owner, repo, commentId } = reference;
+    
+    // Fetch the comment directly by ID
+    const result = await locateComment(reference, githubClient);
     
     if (!result) {
-      throw new Error(`Comment with ID ${commentId} not found in recent pull requests`);
+      throw new Error(commentNotFoundMessage(reference));
     }
     
-    const { comment: targetComment, pr } = result;
+    const { comment: targetComment, pullNumber } = result;
+    if (reference.pullNumber && pullNumber !== reference.pullNumber) {
+      throw new Error(`Comment ${commentId} belongs to PR #${pullNumber}, not PR #${reference.pullNumber}`);
+    }
     
     // Get all comments from this PR for context
-    const allPRComments = await githubClient.getPullRequestComments(owner, repo, pr.number);
+    const { items: allPRComments } = await githubClient.getPullRequestComments(owner, repo, pullNumber);
     
     // Verify this is a CodeRabbit comment
     if (targetComment.user.login !== 'coderabbitai[bot]') {
       throw new Error(`Comment ${commentId} is not from CodeRabbit AI`);
     }
     
-    const body = targetComment.body;
-    
-    // Parse severity and category
-    let severity: "error" | "warning" | "info" | "suggestion" = 'info';
-    let category = 'General';
-    
-    if (body.includes('⚠️ Potential issue')) {
-      severity = 'warning';
-      category = 'Potential Issue';
-    } else if (body.includes('🛠️ Refactor suggestion')) {
-      severity = 'suggestion'; 
-      category = 'Refactor Suggestion';
-    } else if (body.includes('🧹 Nitpick')) {
-      severity = 'info';
-      category = 'Nitpick';
-    } else if (body.includes('🔒 Security')) {
-      severity = 'error';
-      category = 'Security';
-    }
-    
-    // Extract AI prompt
-    const aiPromptMatch = body.match(/🤖 Prompt for AI Agents[\s\S]*?```\n([\s\S]*?)\n```/);
-    const aiPrompt = aiPromptMatch ? aiPromptMatch[1].trim() : undefined;
-    
-    // Extract committable suggestion
-    const committableMatch = body.match(/📝 Committable suggestion[\s\S]*?```suggestion\n([\s\S]*?)\n```/);
-    const committableSuggestion = committableMatch ? committableMatch[1].trim() : undefined;
-    
-    // Extract description
-    const descLines = body.split('\n').filter(line => 
-      line.trim() && 
-      !line.includes('_⚠️') && 
-      !line.includes('_🛠️') && 
-      !line.includes('🤖 Prompt') &&
-      !line.includes('📝 Committable') &&
-      !line.trim().startsWith('<') &&
-      !line.trim().startsWith('```')
+    const parsed = parseCommentBody(targetComment.body);
+    const threads = await getReviewThreadIndex(githubClient, owner, repo, pullNumber);
+    const comment = withLedgerState(
+      parseCoderabbitComment(targetComment, threads?.get(targetComment.id)),
+      ledger.latestFor(owner, repo, commentId)
     );
     
-    const description = descLines.slice(0, 3).join(' ').trim() || 'CodeRabbit suggestion';
-    
-    // Parse line range
-    let lineRange = { start: 1, end: 1 };
-    if (targetComment.original_start_line && targetComment.original_line) {
-      lineRange = {
-        start: targetComment.original_start_line,
-        end: targetComment.original_line
-      };
-    } else if (targetComment.original_line) {
-      lineRange = {
-        start: targetComment.original_line,
-        end: targetComment.original_line
-      };
-    }
-    
-    // Check if resolved
-    const isResolved = body.includes('✅ Addressed') || body.includes('✅ Fixed') || body.includes('✅ Resolved');
-    
     // Extract additional details
     const fileContext = extractFileContext(targetComment.diff_hunk, targetComment.path);
     const relatedComments = findRelatedComments(targetComment, allPRComments);
-    const fixExamples = extractFixExamples(body);
+    const fixExamples = extractFixExamples(parsed);
     
     const commentDetails: CodeRabbitCommentDetails = {
-      id: targetComment.id,
-      body: targetComment.body,
-      path: targetComment.path,
-      line_range: lineRange,
-      side: targetComment.side,
-      severity,
-      category,
-      description,
-      ai_prompt: aiPrompt,
-      committable_suggestion: committableSuggestion,
-      html_url: targetComment.html_url,
-      diff_hunk: targetComment.diff_hunk,
-      created_at: targetComment.created_at,
-      updated_at: targetComment.updated_at,
-      is_resolved: isResolved,
+      ...comment,
       file_context: fileContext,
       related_comments: relatedComments,
       fix_examples: fixExamples
@@ -1,60 +1,59 @@
 import { z } from 'zod';
-import { GitHubComment, CodeRabbitComment } from '../types.js';
+import { GitHubComment, GitHubReview, GitHubReviewThread, CodeRabbitComment, ResolutionRecord, CappedResult } from '../types.js';
 import { GitHubClient } from '../github-client.js';
+import { ResolutionLedger, isResolvedRecord, isLocalResolution } from '../resolution-ledger.js';
+import { PageInputSchema, PageInfo, paginate } from './pagination.js';
+import { parseCommentBody, parseReviewBody, withReviewItemIds, IdentifiedReviewBodyItem, ReviewSectionKind } from '../parser/index.js';
+
+export const COMMENT_FIELDS = [
+  'id', 'inline', 'kind', 'review_id', 'title', 'body', 'path', 'line_range', 'side', 'severity', 'category', 'description',
+  'ai_prompt', 'committable_suggestion', 'html_url', 'diff_hunk', 'created_at', 'updated_at',
+  'is_resolved', 'is_outdated', 'resolution_source', 'thread_id', 'resolved_by', 'local_resolution'
+] as const satisfies ReadonlyArray<keyof CodeRabbitComment>;
+
+export type CommentField = typeof COMMENT_FIELDS[number];
+
+/** Fields dropped by `compact` */
+const RAW_FIELDS: CommentField[] = ['body', 'diff_hunk'];
+
+/** Review body sections whose items are returned alongside inline comments */
+const BODY_ITEM_KINDS: ReviewSectionKind[] = ['nitpick', 'duplicate'];
 
 const GetReviewCommentsSchema = z.object({
   owner: z.string().min(1, "Repository owner is required"),
   repo: z.string().min(1, "Repository name is required"), 
   pullNumber: z.number().int().positive("Pull request number must be positive"),
-  reviewId: z.number().int().positive("Review ID must be positive").optional()
-});
+  reviewId: z.number().int().positive("Review ID must be positive").optional(),
+  severity: z.array(z.enum(['error', 'warning', 'info', 'suggestion'])).optional(),
+  category: z.array(z.string().min(1)).optional(),
+  path: z.string().min(1).optional(),
+  unresolvedOnly: z.boolean().default(false),
+  excludeOutdated: z.boolean().default(false),
+  sinceCommit: z.string().regex(/^[0-9a-f]{7,40}$/i, "sinceCommit must be a commit SHA").optional(),
+  fields: z.array(z.enum(COMMENT_FIELDS)).min(1).optional(),
+  compact: z.boolean().default(false),
+  includeReviewBodyItems: z.boolean().default(true)
+}).merge(PageInputSchema);
 
 export type GetReviewCommentsInput = z.infer<typeof GetReviewCommentsSchema>;
 
+/** A comment reduced to the requested fields; `id` is always kept */
+export type ProjectedComment = Partial<CodeRabbitComment> & Pick<CodeRabbitComment, 'id'>;
+
+export interface GetReviewCommentsResult extends PageInfo, CappedResult {
+  comments: ProjectedComment[];
+  /** Number of CodeRabbit comments before filters were applied */
+  total_comments: number;
+}
+
 /**
  * Parse CodeRabbit comment body to extract structured information
+ *
+ * Resolution and outdated state come from the comment's review thread when given;
+ * otherwise they are guessed from the body and the REST line fields.
  */
-function parseCoderabbitComment(comment: GitHubComment): CodeRabbitComment {
-  const body = comment.body;
-  
-  // Determine severity from markers
-  let severity: "error" | "warning" | "info" | "suggestion" = 'info';
-  let category = 'General';
-  
-  if (body.includes('⚠️ Potential issue') || body.includes('_⚠️ Potential issue_')) {
-    severity = 'warning';
-    category = 'Potential Issue';
-  } else if (body.includes('🛠️ Refactor suggestion') || body.includes('_🛠️ Refactor suggestion_')) {
-    severity = 'suggestion';
-    category = 'Refactor Suggestion';
-  } else if (body.includes('🧹 Nitpick')) {
-    severity = 'info';
-    category = 'Nitpick';
-  } else if (body.includes('🔒 Security')) {
-    severity = 'error';
-    category = 'Security';
-  }
-  
-  // Extract AI prompt
-  const aiPromptMatch = body.match(/🤖 Prompt for AI Agents[\s\S]*?```\n([\s\S]*?)\n```/);
-  const aiPrompt = aiPromptMatch ? aiPromptMatch[1].trim() : undefined;
-  
-  // Extract committable suggestion
-  const committableMatch = body.match(/📝 Committable suggestion[\s\S]*?```suggestion\n([\s\S]*?)\n```/);
-  const committableSuggestion = committableMatch ? committableMatch[1].trim() : undefined;
-  
-  // Extract main description (first substantial paragraph)
-  const descLines = body.split('\n').filter(line => 
-    line.trim() && 
-    !line.includes('_⚠️') && 
-    !line.includes('_🛠️') && 
-    !line.includes('🤖 Prompt') &&
-    !line.includes('📝 Committable') &&
-    !line.trim().startsWith('<') &&
-    !line.trim().startsWith('```')
-  );
-  
-  const description = descLines.slice(0, 3).join(' ').trim() || 'CodeRabbit suggestion';
+export function parseCoderabbitComment(comment: GitHubComment, thread?: GitHubReviewThread): CodeRabbitComment {
+  const parsed = parseCommentBody(comment.body);
   
   // Parse line range from diff_hunk or comment position
   let lineRange = { start: 1, end: 1 };
@@ -70,57 +69,277 @@ function parseCoderabbitComment(comment: GitHubComment): CodeRabbitComment {
     };
   }
   
-  // Check if comment is resolved (GitHub doesn't provide this directly, so we check for resolution indicators)
-  const isResolved = body.includes('✅ Addressed') || body.includes('✅ Fixed') || body.includes('✅ Resolved');
+  // Without thread state, fall back to resolution markers in the body and REST's null line for outdated comments
+  const body = comment.body;
+  const isResolved = thread
+    ? thread.isResolved
+    : body.includes('✅ Addressed') || body.includes('✅ Fixed') || body.includes('✅ Resolved');
+  const isOutdated = thread
+    ? thread.isOutdated
+    : comment.line === null && comment.subject_type !== 'file';
   
   return {
     id: comment.id,
+    inline: true,
+    title: parsed.title,
     body: comment.body,
     path: comment.path,
     line_range: lineRange,
     side: comment.side,
-    severity,
-    category,
-    description,
-    ai_prompt: aiPrompt,
-    committable_suggestion: committableSuggestion,
+    severity: parsed.severity,
+    category: parsed.category,
+    description: parsed.description,
+    ai_prompt: parsed.ai_prompt,
+    committable_suggestion: parsed.committable_suggestion,
     html_url: comment.html_url,
     diff_hunk: comment.diff_hunk,
     created_at: comment.created_at,
     updated_at: comment.updated_at,
-    is_resolved: isResolved
+    is_resolved: isResolved,
+    is_outdated: isOutdated,
+    resolution_source: thread ? 'github' : 'heuristic',
+    thread_id: thread?.id,
+    resolved_by: thread?.resolvedBy?.login
   };
 }
 
+/**
+ * Convert an item from a review body (nitpick, duplicate, outside diff range) to the comment shape
+ *
+ * These items have no GitHub comment or thread, so they are never outdated and only count as
+ * resolved once the ledger records a resolution for their ID.
+ */
+export function reviewItemToComment(review: GitHubReview, item: IdentifiedReviewBodyItem): CodeRabbitComment {
+  return {
+    id: item.id,
+    inline: false,
+    kind: item.kind,
+    review_id: review.id,
+    title: item.title,
+    body: item.body,
+    path: item.file_path,
+    line_range: item.line_range,
+    side: 'RIGHT',
+    severity: item.severity,
+    category: item.category,
+    description: item.description,
+    ai_prompt: item.ai_prompt,
+    committable_suggestion: item.committable_suggestion,
+    html_url: review.html_url,
+    diff_hunk: '',
+    created_at: review.submitted_at,
+    updated_at: review.submitted_at,
+    is_resolved: false,
+    is_outdated: false,
+    resolution_source: 'heuristic'
+  };
+}
+
+/**
+ * Map every comment ID in a pull request's review threads to its thread
+ *
+ * Returns null when the GraphQL API is unavailable (e.g. missing token scope), so callers can fall back.
+ */
+export async function getReviewThreadIndex(
+  githubClient: GitHubClient,
+  owner: string,
+  repo: string,
+  pullNumber: number
+): Promise<Map<number, GitHubReviewThread> | null> {
+  try {
+    const threads = await githubClient.getReviewThreads(owner, repo, pullNumber);
+    const index = new Map<number, GitHubReviewThread>();
+    for (const thread of threads) {
+      for (const { databaseId } of thread.comments.nodes) {
+        index.set(databaseId, thread);
+      }
+    }
+    return index;
+  } catch (error) {
+    console.warn(`Review thread state unavailable for ${owner}/${repo}#${pullNumber}, using comment heuristics:`, error instanceof Error ? error.message : String(error));
+    return null;
+  }
+}
+
+/**
+ * Overlay the local resolution ledger on a parsed comment
+ *
+ * A ledger entry overrides the body heuristic. GitHub's thread state wins over the ledger,
+ * except that a "won't fix" or "not applicable" decision counts for an open thread. Other
+ * entries (e.g. a resolve_conversation that fell back to a reaction) never override GitHub.
+ */
+export function withLedgerState(comment: CodeRabbitComment, record: ResolutionRecord | undefined): CodeRabbitComment {
+  if (!record) return comment;
+  
+  if (comment.resolution_source === 'github' && (comment.is_resolved || !isLocalResolution(record))) {
+    return { ...comment, local_resolution: record };
+  }
+  
+  return {
+    ...comment,
+    is_resolved: isResolvedRecord(record),
+    resolution_source: 'ledger',
+    local_resolution: record
+  };
+}
+
+/**
+ * Convert a path glob to a regular expression
+ * Supports `**` (any number of directories), `*`, `?` and `{a,b}` alternatives.
+ */
+function globToRegExp(glob: string): RegExp {
+  let pattern = '';
+  let braceDepth = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // `**/` also matches zero directories
+      if (glob[i + 2] === '/') {
+        pattern += '(?:.*/)?';
+        i += 2;
+      } else {
+        pattern += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      pattern += '[^/]*';
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else if (char === '{') {
+      pattern += '(?:';
+      braceDepth++;
+    } else if (char === '}' && braceDepth > 0) {
+      pattern += ')';
+      braceDepth--;
+    } else if (char === ',' && braceDepth > 0) {
+      pattern += '|';
+    } else {
+      pattern += char.replace(/[.+^$()|[\]\\{}]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * Commits from `sinceCommit` (inclusive) to the head of the pull request
+ */
+async function getCommitsSince(
+  githubClient: GitHubClient,
+  owner: string,
+  repo: string,
+  pullNumber: number,
+  sinceCommit: string
+): Promise<Set<string>> {
+  const { items: commits } = await githubClient.getPullRequestCommits(owner, repo, pullNumber);
+  const index = commits.findIndex(commit => commit.sha.toLowerCase().startsWith(sinceCommit.toLowerCase()));
+  if (index === -1) {
+    throw new Error(`Commit ${sinceCommit} is not part of PR #${pullNumber}`);
+  }
+  return new Set(commits.slice(index).map(commit => commit.sha));
+}
+
+/**
+ * Keep only the requested fields (plus `id`)
+ */
+function projectComment(comment: CodeRabbitComment, fields: CommentField[]): ProjectedComment {
+  const projected: ProjectedComment = { id: comment.id };
+  for (const field of fields) {
+    if (comment[field] !== undefined) {
+      (projected as Record<string, unknown>)[field] = comment[field];
+    }
+  }
+  return projected;
+}
+
 /**
  * Get all CodeRabbit comments for a pull request or specific review
  */
 export async function getReviewComments(
   input: GetReviewCommentsInput,
-  githubClient: GitHubClient
-): Promise<CodeRabbitComment[]> {
+  githubClient: GitHubClient,
+  ledger: ResolutionLedger
+): Promise<GetReviewCommentsResult> {
   // Validate input
   const validatedInput = GetReviewCommentsSchema.parse(input);
-  const { owner, repo, pullNumber, reviewId } = validatedInput;
+  const {
+    owner, repo, pullNumber, reviewId,
+    severity, category, path, unresolvedOnly, excludeOutdated, sinceCommit, fields, compact,
+    includeReviewBodyItems
+  } = validatedInput;
   
   try {
     // Get all comments for the PR using GitHub API
-    const allComments: GitHubComment[] = await githubClient.getPullRequestComments(owner, repo, pullNumber);
+    const { items: allComments, truncated } = await githubClient.getPullRequestComments(owner, repo, pullNumber);
     
     // Filter for CodeRabbit comments
     let coderabbitComments = allComments.filter(comment => 
       comment.user.login === 'coderabbitai[bot]'
     );
     
+    // Nitpick and duplicate items only exist in review bodies
+    let bodyItems: CodeRabbitComment[] = [];
+    let reviewsCapped = false;
+    const reviewCommits = new Map<number, string>();
+    if (includeReviewBodyItems) {
+      const { items: reviews, truncated: reviewsTruncated } = await githubClient.getPullRequestReviews(owner, repo, pullNumber);
+      const coderabbitReviews = reviews.filter(review => review.user.login === 'coderabbitai[bot]');
+      reviewsCapped = reviewsTruncated;
+      for (const review of coderabbitReviews) {
+        reviewCommits.set(review.id, review.commit_id);
+      }
+      bodyItems = coderabbitReviews
+        .flatMap(review =>
+          withReviewItemIds(review.id, parseReviewBody(review.body).items)
+            .filter(item => BODY_ITEM_KINDS.includes(item.kind))
+            .map(item => reviewItemToComment(review, item))
+        );
+    }
+    const totalComments = coderabbitComments.length + bodyItems.length;
+    
     // If reviewId is specified, filter for that specific review
     if (reviewId) {
       coderabbitComments = coderabbitComments.filter(comment => 
         comment.pull_request_review_id === reviewId
       );
+      bodyItems = bodyItems.filter(item => item.review_id === reviewId);
+    }
+    
+    if (path) {
+      const pathPattern = globToRegExp(path);
+      coderabbitComments = coderabbitComments.filter(comment => pathPattern.test(comment.path));
+      bodyItems = bodyItems.filter(item => pathPattern.test(item.path));
+    }
+    
+    if (sinceCommit) {
+      const commits = await getCommitsSince(githubClient, owner, repo, pullNumber, sinceCommit);
+      coderabbitComments = coderabbitComments.filter(comment => commits.has(comment.original_commit_id));
+      bodyItems = bodyItems.filter(item => commits.has(reviewCommits.get(item.review_id!) ?? ''));
     }
     
     // Parse and enrich each comment
-    const enrichedComments: CodeRabbitComment[] = coderabbitComments.map(parseCoderabbitComment);
+    const threads = await getReviewThreadIndex(githubClient, owner, repo, pullNumber);
+    const resolutions = ledger.latestByComment(owner, repo, pullNumber);
+    let enrichedComments: CodeRabbitComment[] = [
+      ...coderabbitComments.map(comment =>
+        withLedgerState(parseCoderabbitComment(comment, threads?.get(comment.id)), resolutions.get(comment.id))
+      ),
+      ...bodyItems.map(item => withLedgerState(item, resolutions.get(item.id)))
+    ];
+    
+    // Filters that need the parsed comment
+    if (severity && severity.length > 0) {
+      enrichedComments = enrichedComments.filter(comment => severity.includes(comment.severity));
+    }
+    if (category && category.length > 0) {
+      const categories = category.map(value => value.toLowerCase());
+      enrichedComments = enrichedComments.filter(comment => categories.includes(comment.category.toLowerCase()));
+    }
+    if (unresolvedOnly) {
+      enrichedComments = enrichedComments.filter(comment => !comment.is_resolved);
+    }
+    if (excludeOutdated) {
+      enrichedComments = enrichedComments.filter(comment => !comment.is_outdated);
+    }
     
     // Sort by file path and line number for better organization
     enrichedComments.sort((a, b) => {
@@ -130,7 +349,22 @@ export async function getReviewComments(
       return a.line_range.start - b.line_range.start;
     });
     
-    return enrichedComments;
+    // Reduce each comment to the requested fields
+    const selectedFields = (fields ?? [...COMMENT_FIELDS])
+      .filter(field => !compact || !RAW_FIELDS.includes(field));
+    const comments = fields || compact
+      ? enrichedComments.map(comment => projectComment(comment, selectedFields))
+      : enrichedComments;
+    
+    const page = paginate(comments, validatedInput, { depth: 1 });
+    
+    return {
+      comments: page.items,
+      total_comments: totalComments,
+      nextCursor: page.nextCursor,
+      truncated: page.truncated,
+      results_capped: truncated || reviewsCapped
+    };
     
   } catch (error) {
     throw new Error(`Failed to get review comments: ${error instanceof Error ? error.message : String(error)}`);
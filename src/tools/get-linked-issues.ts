@@ -0,0 +1,62 @@
+import { z } from 'zod';
+import { CappedResult } from '../types.js';
+import { GitHubClient } from '../github-client.js';
+import { parseWalkthrough, LinkedIssueAssessment, RelatedPullRequest } from '../parser/index.js';
+import { findWalkthroughComment } from './get-pr-walkthrough.js';
+
+const GetLinkedIssuesSchema = z.object({
+  owner: z.string().min(1, "Repository owner is required"),
+  repo: z.string().min(1, "Repository name is required"),
+  pullNumber: z.number().int().positive("Pull request number must be positive")
+});
+
+export type GetLinkedIssuesInput = z.infer<typeof GetLinkedIssuesSchema>;
+
+export interface GetLinkedIssuesResult extends CappedResult {
+  comment_id: number;
+  html_url: string;
+  linked_issues: LinkedIssueAssessment[];
+  /** False if any objective is marked ❌, null if none are but some are unclear or there are no objectives */
+  all_objectives_addressed: boolean | null;
+  related_prs: RelatedPullRequest[];
+}
+
+/**
+ * Get CodeRabbit's assessment of whether a PR meets the objectives of its linked issues,
+ * plus the PRs it lists as possibly related
+ *
+ * Both come from the walkthrough comment; CodeRabbit leaves the assessment out when the PR
+ * has no linked issues, in which case `linked_issues` is empty.
+ */
+export async function getLinkedIssues(
+  input: GetLinkedIssuesInput,
+  githubClient: GitHubClient
+): Promise<GetLinkedIssuesResult> {
+  // Validate input
+  const validatedInput = GetLinkedIssuesSchema.parse(input);
+  const { owner, repo, pullNumber } = validatedInput;
+
+  try {
+    const { comment, truncated } = await findWalkthroughComment(githubClient, owner, repo, pullNumber);
+    const parsed = parseWalkthrough(comment.body);
+
+    const objectives = parsed.linked_issues.flatMap(issue => issue.objectives);
+    const allAddressed = objectives.some(objective => objective.addressed === false)
+      ? false
+      : objectives.length > 0 && objectives.every(objective => objective.addressed === true)
+        ? true
+        : null;
+
+    return {
+      comment_id: comment.id,
+      html_url: comment.html_url,
+      linked_issues: parsed.linked_issues,
+      all_objectives_addressed: allAddressed,
+      related_prs: parsed.related_prs,
+      results_capped: truncated
+    };
+
+  } catch (error) {
+    throw new Error(`Failed to get linked issues: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
@@ -0,0 +1,74 @@
+import { z } from 'zod';
+import { CappedResult, CodeRabbitComment } from '../types.js';
+import { GitHubClient } from '../github-client.js';
+import { parseReviewBody, withReviewItemIds } from '../parser/index.js';
+import { reviewItemToComment } from './get-comments.js';
+
+const GetOutsideDiffCommentsSchema = z.object({
+  owner: z.string().min(1, "Repository owner is required"),
+  repo: z.string().min(1, "Repository name is required"),
+  pullNumber: z.number().int().positive("Pull request number must be positive"),
+  reviewId: z.number().int().positive("Review ID must be positive").optional(),
+  latestReviewOnly: z.boolean().default(false)
+});
+
+export type GetOutsideDiffCommentsInput = z.infer<typeof GetOutsideDiffCommentsSchema>;
+
+export interface GetOutsideDiffCommentsResult extends CappedResult {
+  comments: CodeRabbitComment[];
+  reviews_checked: number;
+}
+
+/**
+ * Get the findings CodeRabbit reported on lines outside the PR diff
+ *
+ * GitHub only accepts inline comments on diff lines, so CodeRabbit lists these in the
+ * "⚠️ Outside diff range comments" section of the review body instead.
+ */
+export async function getOutsideDiffComments(
+  input: GetOutsideDiffCommentsInput,
+  githubClient: GitHubClient
+): Promise<GetOutsideDiffCommentsResult> {
+  // Validate input
+  const validatedInput = GetOutsideDiffCommentsSchema.parse(input);
+  const { owner, repo, pullNumber, reviewId, latestReviewOnly } = validatedInput;
+
+  try {
+    const { items: reviews, truncated } = await githubClient.getPullRequestReviews(owner, repo, pullNumber);
+
+    let coderabbitReviews = reviews.filter(review =>
+      review.user.login === 'coderabbitai[bot]' && (!reviewId || review.id === reviewId)
+    );
+
+    if (reviewId && coderabbitReviews.length === 0) {
+      throw new Error(`CodeRabbit review with ID ${reviewId} not found in PR #${pullNumber}`);
+    }
+
+    if (latestReviewOnly && coderabbitReviews.length > 0) {
+      const latest = coderabbitReviews.reduce((a, b) => a.submitted_at >= b.submitted_at ? a : b);
+      coderabbitReviews = [latest];
+    }
+
+    const comments = coderabbitReviews.flatMap(review =>
+      withReviewItemIds(review.id, parseReviewBody(review.body).items)
+        .filter(item => item.kind === 'outside_diff')
+        .map(item => reviewItemToComment(review, item))
+    );
+
+    comments.sort((a, b) => {
+      if (a.path !== b.path) {
+        return a.path.localeCompare(b.path);
+      }
+      return a.line_range.start - b.line_range.start;
+    });
+
+    return {
+      comments,
+      reviews_checked: coderabbitReviews.length,
+      results_capped: truncated
+    };
+
+  } catch (error) {
+    throw new Error(`Failed to get outside diff comments: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
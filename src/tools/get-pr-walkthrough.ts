@@ -0,0 +1,85 @@
+import { z } from 'zod';
+import { GitHubIssueComment, CappedResult } from '../types.js';
+import { GitHubClient } from '../github-client.js';
+import { isWalkthroughComment, parseWalkthrough, ReviewEffort, WalkthroughChange } from '../parser/index.js';
+
+const GetPrWalkthroughSchema = z.object({
+  owner: z.string().min(1, "Repository owner is required"),
+  repo: z.string().min(1, "Repository name is required"),
+  pullNumber: z.number().int().positive("Pull request number must be positive")
+});
+
+export type GetPrWalkthroughInput = z.infer<typeof GetPrWalkthroughSchema>;
+
+export interface GetPrWalkthroughResult extends CappedResult {
+  comment_id: number;
+  html_url: string;
+  created_at: string;
+  updated_at: string;
+  summary: string;
+  changes: WalkthroughChange[];
+  /** Mermaid source of each sequence diagram */
+  sequence_diagrams: string[];
+  estimated_review_effort?: ReviewEffort;
+  poem?: string;
+}
+
+/**
+ * Find CodeRabbit's walkthrough comment among a PR's issue comments
+ *
+ * CodeRabbit edits one comment in place as it re-reviews, but if several exist the most
+ * recently updated one wins.
+ */
+export async function findWalkthroughComment(
+  githubClient: GitHubClient,
+  owner: string,
+  repo: string,
+  pullNumber: number
+): Promise<{ comment: GitHubIssueComment; truncated: boolean }> {
+  const { items: comments, truncated } = await githubClient.getIssueComments(owner, repo, pullNumber);
+
+  const candidates = comments.filter(comment =>
+    comment.user.login === 'coderabbitai[bot]' && isWalkthroughComment(comment.body ?? '')
+  );
+
+  if (candidates.length === 0) {
+    throw new Error(`No CodeRabbit walkthrough comment found in PR #${pullNumber}`);
+  }
+
+  const comment = candidates.reduce((a, b) => a.updated_at >= b.updated_at ? a : b);
+  return { comment, truncated };
+}
+
+/**
+ * Get CodeRabbit's walkthrough for a PR: summary, per-file changes, sequence diagrams,
+ * review effort estimate and poem
+ */
+export async function getPrWalkthrough(
+  input: GetPrWalkthroughInput,
+  githubClient: GitHubClient
+): Promise<GetPrWalkthroughResult> {
+  // Validate input
+  const validatedInput = GetPrWalkthroughSchema.parse(input);
+  const { owner, repo, pullNumber } = validatedInput;
+
+  try {
+    const { comment, truncated } = await findWalkthroughComment(githubClient, owner, repo, pullNumber);
+    const parsed = parseWalkthrough(comment.body);
+
+    return {
+      comment_id: comment.id,
+      html_url: comment.html_url,
+      created_at: comment.created_at,
+      updated_at: comment.updated_at,
+      summary: parsed.summary,
+      changes: parsed.changes,
+      sequence_diagrams: parsed.sequence_diagrams,
+      estimated_review_effort: parsed.estimated_review_effort,
+      poem: parsed.poem,
+      results_capped: truncated
+    };
+
+  } catch (error) {
+    throw new Error(`Failed to get PR walkthrough: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
@@ -0,0 +1,58 @@
+import { z } from 'zod';
+import { GitHubClient } from '../github-client.js';
+
+const GetRateLimitStatusSchema = z.object({
+  resources: z.array(z.string().min(1)).optional()
+});
+
+export type GetRateLimitStatusInput = z.infer<typeof GetRateLimitStatusSchema>;
+
+export interface RateLimitStatus {
+  resource: string;
+  limit: number;
+  remaining: number;
+  used: number;
+  reset_at: string;
+  resets_in_seconds: number;
+}
+
+export interface GetRateLimitStatusResult {
+  rate_limits: RateLimitStatus[];
+  checked_at: string;
+}
+
+/**
+ * Get the remaining GitHub API budget so an agent can plan large batches of calls
+ */
+export async function getRateLimitStatus(
+  input: GetRateLimitStatusInput,
+  githubClient: GitHubClient
+): Promise<GetRateLimitStatusResult> {
+  // Validate input
+  const validatedInput = GetRateLimitStatusSchema.parse(input ?? {});
+  const { resources } = validatedInput;
+
+  try {
+    const rateLimits = await githubClient.getRateLimitStatus();
+    const now = Date.now();
+
+    const selected = resources && resources.length > 0
+      ? rateLimits.filter(info => resources.includes(info.resource))
+      : rateLimits;
+
+    return {
+      rate_limits: selected.map(info => ({
+        resource: info.resource,
+        limit: info.limit,
+        remaining: info.remaining,
+        used: info.used,
+        reset_at: new Date(info.reset * 1000).toISOString(),
+        resets_in_seconds: Math.max(Math.ceil((info.reset * 1000 - now) / 1000), 0)
+      })),
+      checked_at: new Date(now).toISOString()
+    };
+
+  } catch (error) {
+    throw new Error(`Failed to get rate limit status: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
@@ -0,0 +1,70 @@
+import { z } from 'zod';
+import { ResolutionRecord } from '../types.js';
+import { ResolutionLedger } from '../resolution-ledger.js';
+
+const DateString = z.string().refine(value => !isNaN(Date.parse(value)), "Must be an ISO 8601 date or timestamp");
+
+const ListResolutionsSchema = z.object({
+  owner: z.string().min(1).optional(),
+  repo: z.string().min(1).optional(),
+  pullNumber: z.number().int().positive("Pull request number must be positive").optional(),
+  resolution: z.enum(['addressed', 'wont_fix', 'not_applicable', 'resolved', 'unresolved']).optional(),
+  since: DateString.optional(),
+  until: DateString.optional(),
+  latestOnly: z.boolean().default(false),
+  limit: z.number().int().positive().max(1000).default(100)
+});
+
+export type ListResolutionsInput = z.infer<typeof ListResolutionsSchema>;
+
+export interface ListResolutionsResult {
+  resolutions: ResolutionRecord[];
+  total: number;
+  ledger_file: string;
+}
+
+/**
+ * Query the local resolution ledger, newest entries first
+ */
+export async function listResolutions(
+  input: ListResolutionsInput,
+  ledger: ResolutionLedger
+): Promise<ListResolutionsResult> {
+  // Validate input
+  const validatedInput = ListResolutionsSchema.parse(input ?? {});
+  const { owner, repo, pullNumber, resolution, since, until, latestOnly, limit } = validatedInput;
+
+  try {
+    let records = ledger.query({
+      owner,
+      repo,
+      pullNumber,
+      since: since ? new Date(since) : undefined,
+      until: until ? new Date(until) : undefined
+    });
+
+    // Keep the newest entry per comment before filtering by type, so superseded entries don't match
+    if (latestOnly) {
+      const latest = new Map<string, ResolutionRecord>();
+      for (const record of records) {
+        latest.set(`${record.owner}/${record.repo}#${record.comment_id}`.toLowerCase(), record);
+      }
+      records = [...latest.values()];
+    }
+
+    if (resolution) {
+      records = records.filter(record => record.resolution === resolution);
+    }
+
+    records.sort((a, b) => b.recorded_at.localeCompare(a.recorded_at));
+
+    return {
+      resolutions: records.slice(0, limit),
+      total: records.length,
+      ledger_file: ledger.filePath
+    };
+
+  } catch (error) {
+    throw new Error(`Failed to list resolutions: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
@@ -0,0 +1,111 @@
+import { z } from 'zod';
+import { createHash } from 'crypto';
+
+/**
+ * Paging inputs shared by list tools
+ */
+export const PageInputSchema = z.object({
+  limit: z.number().int().positive("Limit must be positive").optional(),
+  cursor: z.string().min(1).optional(),
+  maxChars: z.number().int().min(1000, "maxChars must be at least 1000").optional()
+});
+
+export type PageInput = z.infer<typeof PageInputSchema>;
+
+export interface PageInfo {
+  /** Pass back as `cursor` to get the next page; absent on the last page */
+  nextCursor?: string;
+  /** True when more results remain after this page */
+  truncated: boolean;
+}
+
+export interface PageOptions {
+  /** Characters of the response taken up by everything but the paged items */
+  reservedChars?: number;
+  /** How many objects the items array is nested in: 1 for `{ comments: [...] }` (default 0) */
+  depth?: number;
+}
+
+interface CursorPayload {
+  offset: number;
+  query: string;
+}
+
+/**
+ * Fingerprint of the non-paging inputs, so a cursor can't be replayed against a different query
+ */
+function queryFingerprint(query: Record<string, unknown>): string {
+  const { cursor, limit, maxChars, ...rest } = query;
+  const normalized = JSON.stringify(
+    Object.keys(rest).sort().filter(key => rest[key] !== undefined).map(key => [key, rest[key]])
+  );
+  return createHash('sha256').update(normalized).digest('base64url').slice(0, 16);
+}
+
+function encodeCursor(payload: CursorPayload): string {
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+function decodeCursor(cursor: string, query: string): number {
+  let payload: CursorPayload;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+  } catch {
+    throw new Error('Invalid cursor');
+  }
+
+  if (!Number.isInteger(payload.offset) || payload.offset < 0) {
+    throw new Error('Invalid cursor');
+  }
+  if (payload.query !== query) {
+    throw new Error('Cursor was issued for a different query; start again without a cursor');
+  }
+  return payload.offset;
+}
+
+/**
+ * Size of an item as emitted by `JSON.stringify(response, null, 2)` inside an array at `depth`,
+ * including its indentation and the separator after it
+ */
+function serializedSize(item: unknown, depth: number): number {
+  const indent = ' '.repeat((depth + 1) * 2);
+  const lines = JSON.stringify(item, null, 2).split('\n');
+  return lines.reduce((total, line) => total + indent.length + line.length + 1, 1);
+}
+
+/**
+ * Cut one page out of a full result list
+ *
+ * `limit` caps the number of items; `maxChars` caps the serialized size of the page, after
+ * `reservedChars` for the rest of the response. A page always holds at least one item so
+ * that walking the cursor makes progress.
+ */
+export function paginate<T>(
+  items: T[],
+  input: PageInput & Record<string, unknown>,
+  { reservedChars = 0, depth = 0 }: PageOptions = {}
+): { items: T[] } & PageInfo {
+  const query = queryFingerprint(input);
+  const offset = input.cursor ? decodeCursor(input.cursor, query) : 0;
+  const end = input.limit ? Math.min(offset + input.limit, items.length) : items.length;
+
+  const page: T[] = [];
+  let used = reservedChars;
+  for (let index = offset; index < end; index++) {
+    const size = serializedSize(items[index], depth);
+    if (input.maxChars && page.length > 0 && used + size > input.maxChars) {
+      break;
+    }
+    page.push(items[index]);
+    used += size;
+  }
+
+  const nextOffset = offset + page.length;
+  const truncated = nextOffset < items.length;
+
+  return {
+    items: page,
+    nextCursor: truncated ? encodeCursor({ offset: nextOffset, query }) : undefined,
+    truncated
+  };
+}
@@ -0,0 +1,72 @@
+import { z } from 'zod';
+
+/**
+ * How long a waiting tool may block, in seconds
+ */
+export const TimeoutSecondsSchema = z.number().int().positive("Timeout must be positive").max(1800, "Timeout can be at most 1800 seconds");
+
+export interface PollOptions {
+  timeoutMs: number;
+  /** First delay between checks; later delays grow by half each time up to `maxDelayMs` */
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  /** Called after every check that didn't finish the wait */
+  onPending?: (attempt: number, elapsedMs: number) => void | Promise<void>;
+}
+
+/**
+ * Progress of a waiting tool, reported after every check that didn't finish the wait
+ */
+export interface WaitProgress {
+  elapsed_seconds: number;
+  timeout_seconds: number;
+  message: string;
+}
+
+export interface PollResult<T> {
+  /** The first non-undefined value returned by `check`, or undefined on timeout */
+  value?: T;
+  attempts: number;
+  elapsed_ms: number;
+}
+
+const DEFAULT_INITIAL_DELAY_MS = 5_000;
+const DEFAULT_MAX_DELAY_MS = 30_000;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Call `check` with backoff until it returns a value or the timeout passes
+ *
+ * The first check runs immediately, and the last one runs at the deadline rather than after it.
+ */
+export async function pollUntil<T>(
+  check: () => Promise<T | undefined>,
+  options: PollOptions
+): Promise<PollResult<T>> {
+  const startedAt = Date.now();
+  const deadline = startedAt + options.timeoutMs;
+  let delay = options.initialDelayMs ?? DEFAULT_INITIAL_DELAY_MS;
+  const maxDelay = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+  let attempts = 0;
+
+  while (true) {
+    attempts++;
+    const value = await check();
+    const elapsed = Date.now() - startedAt;
+    if (value !== undefined) {
+      return { value, attempts, elapsed_ms: elapsed };
+    }
+
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      return { attempts, elapsed_ms: elapsed };
+    }
+
+    await options.onPending?.(attempts, elapsed);
+    await sleep(Math.min(delay, remaining));
+    delay = Math.min(Math.round(delay * 1.5), maxDelay);
+  }
+}
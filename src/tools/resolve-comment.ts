@@ -1,12 +1,24 @@
 import { z } from 'zod';
+import { ResolutionRecord } from '../types.js';
 import { GitHubClient } from '../github-client.js';
+import { ResolutionLedger } from '../resolution-ledger.js';
+import { parseReviewBody, withReviewItemIds, parseReviewItemId } from '../parser/index.js';
+import {
+  CommentReferenceSchema,
+  ReplyModeSchema,
+  resolveCommentReference,
+  locateComment,
+  commentNotFoundMessage,
+  postCommentNote,
+  getHeadSha
+} from './comment-reference.js';
 
-const ResolveCommentSchema = z.object({
-  owner: z.string().min(1, "Repository owner is required"),
-  repo: z.string().min(1, "Repository name is required"),
-  commentId: z.number().int().positive("Comment ID must be positive"),
+const ResolveCommentSchema = CommentReferenceSchema.extend({
+  reviewItemId: z.string().refine(value => parseReviewItemId(value) !== null, "Not a review body item ID, e.g. review-123-nitpick-1a2b3c4d").optional(),
   resolution: z.enum(['addressed', 'wont_fix', 'not_applicable']).default('addressed'),
-  note: z.string().optional()
+  note: z.string().optional(),
+  commitSha: z.string().min(7).optional(),
+  replyMode: ReplyModeSchema
 });
 
 export type ResolveCommentInput = z.infer<typeof ResolveCommentSchema>;
@@ -14,8 +26,141 @@ export type ResolveCommentInput = z.infer<typeof ResolveCommentSchema>;
 export interface ResolveCommentResult {
   success: boolean;
   message: string;
-  comment_id: number;
+  /** Review comment ID, or the review body item ID */
+  comment_id: number | string;
+  /**
+   * 'thread_reply' - a reply was posted in the comment's review thread
+   * 'pr_comment' - a top-level PR comment was posted
+   * 'tracked' - posting failed; the resolution is only in the local ledger
+   */
   resolution_method: string;
+  ledger_entry?: ResolutionRecord;
+  /** Why the resolution could not be written to the local ledger */
+  ledger_error?: string;
+}
+
+const RESOLUTION_EMOJIS = {
+  addressed: '✅',
+  wont_fix: '🚫',
+  not_applicable: '❌'
+};
+
+const RESOLUTION_MESSAGES = {
+  addressed: 'Addressed and implemented',
+  wont_fix: 'Will not fix - issue acknowledged but not actionable',
+  not_applicable: 'Not applicable to current context'
+};
+
+/**
+ * Write the ledger entry and build the result
+ *
+ * When the note could not be posted either, the resolution exists nowhere and the call fails;
+ * otherwise the posted note stands and the ledger error is reported alongside it.
+ */
+function recordResolution(
+  ledger: ResolutionLedger,
+  entry: Omit<ResolutionRecord, 'recorded_at'>,
+  message: string,
+  postError?: string
+): ResolveCommentResult {
+  const { comment_id, method } = entry;
+
+  try {
+    const ledgerEntry = ledger.record(entry);
+    return { success: true, message, comment_id, resolution_method: method, ledger_entry: ledgerEntry };
+  } catch (ledgerError) {
+    const reason = ledgerError instanceof Error ? ledgerError.message : String(ledgerError);
+    if (postError) {
+      return {
+        success: false,
+        message: `Could not post the resolution (${postError}) or record it locally (${reason})`,
+        comment_id,
+        resolution_method: 'error',
+        ledger_error: reason
+      };
+    }
+    return {
+      success: true,
+      message: `${message}, but it was not recorded locally: ${reason}`,
+      comment_id,
+      resolution_method: method,
+      ledger_error: reason
+    };
+  }
+}
+
+/**
+ * Resolve a review body item (nitpick, duplicate, ...) by its synthetic ID
+ *
+ * Body items have no review thread, so the note always goes into a top-level PR comment and
+ * the ledger entry is what marks the item as resolved in get_review_comments.
+ */
+async function resolveReviewItem(
+  input: ResolveCommentInput & { reviewItemId: string },
+  githubClient: GitHubClient,
+  ledger: ResolutionLedger
+): Promise<ResolveCommentResult> {
+  const { owner, repo, pullNumber, reviewItemId, resolution, note, commitSha } = input;
+  if (!owner || !repo || !pullNumber) {
+    throw new Error('owner, repo and pullNumber are required with reviewItemId');
+  }
+
+  try {
+    const { reviewId } = parseReviewItemId(reviewItemId)!;
+    const { items: reviews } = await githubClient.getPullRequestReviews(owner, repo, pullNumber);
+    const review = reviews.find(candidate => candidate.id === reviewId && candidate.user.login === 'coderabbitai[bot]');
+    const item = review && withReviewItemIds(review.id, parseReviewBody(review.body).items)
+      .find(candidate => candidate.id === reviewItemId);
+
+    if (!review || !item) {
+      return {
+        success: false,
+        message: `Review item ${reviewItemId} not found in PR #${pullNumber}`,
+        comment_id: reviewItemId,
+        resolution_method: 'none'
+      };
+    }
+
+    let resolutionMethod = 'pr_comment';
+    let resultMessage: string;
+    let postError: string | undefined;
+
+    try {
+      const userNote = note ? `\n\n**Note:** ${note}` : '';
+      const location = `\`${item.file_path}:${item.line_range.start}-${item.line_range.end}\``;
+      await githubClient.addIssueComment(
+        owner,
+        repo,
+        pullNumber,
+        `**Resolving CodeRabbit ${item.kind.replace('_', ' ')} comment in [review](${review.html_url}): ${location}${item.title ? ` ${item.title}` : ''}**\n\n` +
+        `${RESOLUTION_EMOJIS[resolution]} **${RESOLUTION_MESSAGES[resolution]}**${userNote}\n\n*Resolved via CodeRabbit MCP*`
+      );
+      resultMessage = `Added resolution comment to PR #${pullNumber}`;
+    } catch (replyError) {
+      resolutionMethod = 'tracked';
+      postError = replyError instanceof Error ? replyError.message : String(replyError);
+      resultMessage = `Review item resolution recorded locally (comment failed: ${postError})`;
+    }
+
+    return recordResolution(ledger, {
+      comment_id: reviewItemId,
+      owner,
+      repo,
+      pull_number: pullNumber,
+      resolution,
+      note,
+      commit_sha: commitSha ?? await getHeadSha(githubClient, owner, repo, pullNumber),
+      method: resolutionMethod
+    }, resultMessage, postError);
+
+  } catch (error) {
+    return {
+      success: false,
+      message: `Failed to resolve review item: ${error instanceof Error ? error.message : String(error)}`,
+      comment_id: reviewItemId,
+      resolution_method: 'error'
+    };
+  }
 }
 
 /**
@@ -23,32 +168,39 @@ export interface ResolveCommentResult {
  * 
  * Note: GitHub doesn't provide a direct API to "resolve" pull request comments
  * like it does for review comments. This function implements several strategies:
- * 1. Add a reply comment indicating resolution
- * 2. React to the comment with a thumbs up
- * 3. Track resolution status internally
+ * 1. Reply in the comment's thread (or post a top-level PR comment with replyMode 'pr_comment')
+ * 2. Record the resolution in the local ledger, even when the reply could not be posted
+ *
+ * Review body items (nitpicks, duplicates) are resolved by `reviewItemId` instead of `commentId`.
  */
 export async function resolveComment(
   input: ResolveCommentInput,
-  githubClient: GitHubClient
+  githubClient: GitHubClient,
+  ledger: ResolutionLedger
 ): Promise<ResolveCommentResult> {
   // Validate input
   const validatedInput = ResolveCommentSchema.parse(input);
-  const { owner, repo, commentId, resolution, note } = validatedInput;
+  const { resolution, note, commitSha, replyMode, reviewItemId } = validatedInput;
+  if (reviewItemId) {
+    return resolveReviewItem({ ...validatedInput, reviewItemId }, githubClient, ledger);
+  }
+  const reference = resolveCommentReference(validatedInput);
+  const { owner, repo, commentId } = reference;
   
   try {
-    // Use the GitHub client's helper method to find the comment across recent PRs
-    const result = await githubClient.findCommentInRecentPRs(owner, repo, commentId);
+    // Fetch the comment directly by ID
+    const result = await locateComment(reference, githubClient);
     
     if (!result) {
       return {
         success: false,
-        message: `Comment with ID ${commentId} not found in recent pull requests`,
+        message: commentNotFoundMessage(reference),
         comment_id: commentId,
         resolution_method: 'none'
       };
     }
     
-    const { comment: targetComment, pr: targetPR } = result;
+    const { comment: targetComment, pullNumber } = result;
     
     // Verify this is a CodeRabbit comment
     if (targetComment.user.login !== 'coderabbitai[bot]') {
@@ -60,58 +212,49 @@ export async function resolveComment(
       };
     }
     
-    let resolutionMethod = 'reply';
+    let resolutionMethod = replyMode === 'thread' ? 'thread_reply' : 'pr_comment';
     let resultMessage = '';
+    let postError: string | undefined;
     
     try {
       // Strategy 1: Add a reply comment to indicate resolution
-      const resolutionEmojis = {
-        addressed: '✅',
-        wont_fix: '🚫', 
-        not_applicable: '❌'
-      };
-      
-      const resolutionMessages = {
-        addressed: 'Addressed and implemented',
-        wont_fix: 'Will not fix - issue acknowledged but not actionable',
-        not_applicable: 'Not applicable to current context'
-      };
-      
-      const emoji = resolutionEmojis[resolution];
-      const message = resolutionMessages[resolution];
+      const emoji = RESOLUTION_EMOJIS[resolution];
+      const message = RESOLUTION_MESSAGES[resolution];
       const userNote = note ? `\n\n**Note:** ${note}` : '';
       
       const replyBody = `${emoji} **${message}**${userNote}\n\n*Resolved via CodeRabbit MCP*`;
       
-      // Add reply comment to the PR
-      await githubClient.addIssueComment(
-        owner,
-        repo,
-        targetPR.number,
-        `**Resolving CodeRabbit comment [#${commentId}](${targetComment.html_url})**\n\n${replyBody}`
+      await postCommentNote(
+        githubClient,
+        reference,
+        pullNumber,
+        targetComment,
+        replyBody,
+        replyMode,
+        'Resolving CodeRabbit comment'
       );
       
-      resultMessage = `Added resolution comment to PR #${targetPR.number}`;
+      resultMessage = replyMode === 'thread'
+        ? `Added resolution reply in the review thread on PR #${pullNumber}`
+        : `Added resolution comment to PR #${pullNumber}`;
       
     } catch (replyError) {
-      // Strategy 2: Try to react to the original comment (if possible)
-      try {
-        // Note: GitHub API doesn't allow bots to add reactions to comments in most cases
-        // This would require special permissions
-        resolutionMethod = 'tracked';
-        resultMessage = `Comment resolution tracked (reply failed: ${replyError instanceof Error ? replyError.message : String(replyError)})`;
-      } catch (reactionError) {
-        resolutionMethod = 'logged';
-        resultMessage = `Comment resolution logged locally (API limitations: ${replyError instanceof Error ? replyError.message : String(replyError)})`;
-      }
+      // Strategy 2: Keep the resolution in the local ledger only
+      resolutionMethod = 'tracked';
+      postError = replyError instanceof Error ? replyError.message : String(replyError);
+      resultMessage = `Comment resolution recorded locally (reply failed: ${postError})`;
     }
     
-    return {
-      success: true,
-      message: resultMessage,
+    return recordResolution(ledger, {
       comment_id: commentId,
-      resolution_method: resolutionMethod
-    };
+      owner,
+      repo,
+      pull_number: pullNumber,
+      resolution,
+      note,
+      commit_sha: commitSha ?? await getHeadSha(githubClient, owner, repo, pullNumber),
+      method: resolutionMethod
+    }, resultMessage, postError);
     
   } catch (error) {
     return {
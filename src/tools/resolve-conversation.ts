@@ -1,12 +1,21 @@
 import { z } from 'zod';
+import { ResolutionRecord } from '../types.js';
 import { GitHubClient } from '../github-client.js';
+import { ResolutionLedger } from '../resolution-ledger.js';
+import {
+  CommentReferenceSchema,
+  ReplyModeSchema,
+  resolveCommentReference,
+  locateComment,
+  commentNotFoundMessage,
+  postCommentNote,
+  getHeadSha
+} from './comment-reference.js';
 
-const ResolveConversationSchema = z.object({
-  owner: z.string().min(1, "Repository owner is required"),
-  repo: z.string().min(1, "Repository name is required"),
-  commentId: z.number().int().positive("Comment ID must be positive"),
+const ResolveConversationSchema = CommentReferenceSchema.extend({
   resolved: z.boolean().default(true),
-  note: z.string().optional()
+  note: z.string().optional(),
+  replyMode: ReplyModeSchema
 });
 
 export type ResolveConversationInput = z.infer<typeof ResolveConversationSchema>;
@@ -15,8 +24,20 @@ export interface ResolveConversationResult {
   success: boolean;
   message: string;
   comment_id: number;
-  resolved: boolean;
+  /** Whether the GitHub thread is resolved afterwards, as GitHub reports it; absent when unknown */
+  resolved?: boolean;
+  /** Whether the thread state was changed in GitHub (only for 'graphql') */
+  thread_changed: boolean;
+  /**
+   * 'graphql' - the thread state was changed in GitHub
+   * 'reaction' - the thread was left as-is and only a reaction was added
+   * 'comment' - the thread was left as-is and only a note was posted
+   */
   resolution_method: string;
+  thread_id?: string;
+  ledger_entry?: ResolutionRecord;
+  /** Why the resolution could not be written to the local ledger */
+  ledger_error?: string;
   error_details?: string;
 }
 
@@ -25,31 +46,36 @@ export interface ResolveConversationResult {
  * 
  * This function marks a conversation thread as resolved in GitHub's UI,
  * which is different from just adding a comment about resolution.
- * It uses GitHub's conversation resolution API when available.
+ * It uses GitHub's GraphQL review thread mutations and reports via
+ * `resolution_method` whether it had to fall back to a reaction or comment.
  */
 export async function resolveConversation(
   input: ResolveConversationInput,
-  githubClient: GitHubClient
+  githubClient: GitHubClient,
+  ledger: ResolutionLedger
 ): Promise<ResolveConversationResult> {
   // Validate input
   const validatedInput = ResolveConversationSchema.parse(input);
-  const { owner, repo, commentId, resolved, note } = validatedInput;
+  const { resolved, note, replyMode } = validatedInput;
+  const reference = resolveCommentReference(validatedInput);
+  const { owner, repo, commentId } = reference;
+  const where = replyMode === 'thread' ? 'in the review thread on PR' : 'to PR';
   
   try {
-    // Find the comment first to verify it exists and is from CodeRabbit
-    const result = await githubClient.findCommentInRecentPRs(owner, repo, commentId);
+    // Fetch the comment first to verify it exists and is from CodeRabbit
+    const result = await locateComment(reference, githubClient);
     
     if (!result) {
       return {
         success: false,
-        message: `Comment with ID ${commentId} not found in recent pull requests`,
+        message: commentNotFoundMessage(reference),
         comment_id: commentId,
-        resolved: false,
+        thread_changed: false,
         resolution_method: 'none'
       };
     }
     
-    const { comment: targetComment, pr: targetPR } = result;
+    const { comment: targetComment, pullNumber } = result;
     
     // Verify this is a CodeRabbit comment
     if (targetComment.user.login !== 'coderabbitai[bot]') {
@@ -57,83 +83,111 @@ export async function resolveConversation(
         success: false,
         message: `Comment ${commentId} is not from CodeRabbit AI`,
         comment_id: commentId,
-        resolved: false,
+        thread_changed: false,
         resolution_method: 'none'
       };
     }
     
-    let resolutionMethod = 'api';
+    let resolutionMethod = 'graphql';
     let resultMessage = '';
+    let threadId: string | undefined;
+    // Thread state as GitHub reports it; only the mutation can change it
+    let threadResolved: boolean | undefined;
+    let noteBody: string | undefined;
     
     try {
       if (resolved) {
         // Try to resolve the conversation
-        await githubClient.resolveReviewConversation(owner, repo, commentId);
-        resultMessage = `Conversation marked as resolved in PR #${targetPR.number}`;
-        
-        // Add optional note as a comment
-        if (note) {
-          await githubClient.addIssueComment(
-            owner,
-            repo,
-            targetPR.number,
-            `**Conversation resolved:** ${note}\n\n*Resolved via CodeRabbit MCP*`
-          );
-          resultMessage += ` with note: "${note}"`;
-        }
+        const resolution = await githubClient.resolveReviewConversation(owner, repo, targetComment);
+        resolutionMethod = resolution.method;
+        threadId = resolution.thread_id;
+        threadResolved = resolution.resolved;
+        resultMessage = resolution.method === 'graphql'
+          ? `Conversation marked as resolved in PR #${pullNumber}`
+          : `Conversation could not be resolved in PR #${pullNumber} (${resolution.fallback_reason}); added 👍 reaction instead`;
+        noteBody = note && `**Conversation resolved:** ${note}\n\n*Resolved via CodeRabbit MCP*`;
       } else {
         // Try to unresolve the conversation
-        await githubClient.unresolveReviewConversation(owner, repo, commentId);
-        resultMessage = `Conversation marked as unresolved in PR #${targetPR.number}`;
-        
-        if (note) {
-          await githubClient.addIssueComment(
-            owner,
-            repo,
-            targetPR.number,
-            `**Conversation reopened:** ${note}\n\n*Updated via CodeRabbit MCP*`
-          );
-          resultMessage += ` with note: "${note}"`;
-        }
+        const resolution = await githubClient.unresolveReviewConversation(owner, repo, targetComment);
+        resolutionMethod = resolution.method;
+        threadId = resolution.thread_id;
+        threadResolved = resolution.resolved;
+        resultMessage = resolution.method === 'graphql'
+          ? `Conversation marked as unresolved in PR #${pullNumber}`
+          : `Conversation could not be unresolved in PR #${pullNumber} (${resolution.fallback_reason}); added 👀 reaction instead`;
+        noteBody = note && `**Conversation reopened:** ${note}\n\n*Updated via CodeRabbit MCP*`;
       }
       
     } catch (apiError) {
-      // Fallback methods if direct API resolution fails
-      resolutionMethod = 'fallback';
-      
+      // Neither the thread mutation nor the reaction fallback worked, so leave a note
       if (resolved) {
-        // Fallback 1: Add a positive reaction to indicate resolution
-        try {
-          await githubClient.addReactionToComment(owner, repo, commentId, '+1');
-          resultMessage = `Added positive reaction to indicate resolution (API limitation)`;
-        } catch (reactionError) {
-          // Fallback 2: Add a comment to the PR
-          const fallbackMessage = note 
-            ? `**Conversation resolved:** ${note}\n\n*Note: Direct conversation resolution not available, using comment tracking*\n\n*Resolved via CodeRabbit MCP*`
-            : `**Conversation resolved for comment [#${commentId}](${targetComment.html_url})**\n\n*Note: Direct conversation resolution not available*\n\n*Resolved via CodeRabbit MCP*`;
-          
-          await githubClient.addIssueComment(owner, repo, targetPR.number, fallbackMessage);
-          resultMessage = `Added resolution comment to PR #${targetPR.number} (API limitations)`;
-          resolutionMethod = 'comment';
-        }
+        const fallbackMessage = note 
+          ? `**Conversation resolved:** ${note}\n\n*Note: Direct conversation resolution not available, using comment tracking*\n\n*Resolved via CodeRabbit MCP*`
+          : `**Conversation resolved for comment [#${commentId}](${targetComment.html_url})**\n\n*Note: Direct conversation resolution not available*\n\n*Resolved via CodeRabbit MCP*`;
+        
+        await postCommentNote(githubClient, reference, pullNumber, targetComment, fallbackMessage, replyMode, 'Resolving CodeRabbit comment');
+        resultMessage = `Added resolution comment ${where} #${pullNumber} (API limitations)`;
       } else {
         // For unresolving, we can only add a comment
         const unresolveMessage = note
           ? `**Conversation reopened:** ${note}\n\n*Reopened via CodeRabbit MCP*`
           : `**Conversation reopened for comment [#${commentId}](${targetComment.html_url})**\n\n*Reopened via CodeRabbit MCP*`;
         
-        await githubClient.addIssueComment(owner, repo, targetPR.number, unresolveMessage);
-        resultMessage = `Added reopen comment to PR #${targetPR.number}`;
-        resolutionMethod = 'comment';
+        await postCommentNote(githubClient, reference, pullNumber, targetComment, unresolveMessage, replyMode, 'Reopening CodeRabbit comment');
+        resultMessage = `Added reopen comment ${where} #${pullNumber}`;
       }
+      resolutionMethod = 'comment';
+    }
+    
+    // The thread state is already settled, so a failed note only changes the message
+    if (noteBody) {
+      try {
+        await postCommentNote(
+          githubClient,
+          reference,
+          pullNumber,
+          targetComment,
+          noteBody,
+          replyMode,
+          resolved ? 'Resolving CodeRabbit comment' : 'Reopening CodeRabbit comment'
+        );
+        resultMessage += ` with note: "${note}"`;
+      } catch (noteError) {
+        resultMessage += `; the note could not be posted: ${noteError instanceof Error ? noteError.message : String(noteError)}`;
+      }
+    }
+    
+    // The ledger records the intent even when only a reaction or note could be added;
+    // GitHub's thread state still wins when comments are listed
+    const commitSha = await getHeadSha(githubClient, owner, repo, pullNumber);
+    let ledgerEntry: ResolutionRecord | undefined;
+    let ledgerError: string | undefined;
+    try {
+      ledgerEntry = ledger.record({
+        comment_id: commentId,
+        owner,
+        repo,
+        pull_number: pullNumber,
+        resolution: resolved ? 'resolved' : 'unresolved',
+        note,
+        commit_sha: commitSha,
+        method: resolutionMethod
+      });
+    } catch (recordError) {
+      ledgerError = recordError instanceof Error ? recordError.message : String(recordError);
+      resultMessage += `; it was not recorded locally: ${ledgerError}`;
     }
     
     return {
       success: true,
       message: resultMessage,
       comment_id: commentId,
-      resolved,
-      resolution_method: resolutionMethod
+      resolved: threadResolved,
+      thread_changed: resolutionMethod === 'graphql',
+      resolution_method: resolutionMethod,
+      thread_id: threadId,
+      ledger_entry: ledgerEntry,
+      ledger_error: ledgerError
     };
     
   } catch (error) {
@@ -141,7 +195,7 @@ export async function resolveConversation(
       success: false,
       message: `Failed to ${resolved ? 'resolve' : 'unresolve'} conversation: ${error instanceof Error ? error.message : String(error)}`,
       comment_id: commentId,
-      resolved: false,
+      thread_changed: false,
       resolution_method: 'error',
       error_details: error instanceof Error ? error.stack : undefined
     };
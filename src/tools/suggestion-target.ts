@@ -0,0 +1,142 @@
+import { GitHubComment } from '../types.js';
+
+export interface SuggestionTarget {
+  start: number;
+  end: number;
+  replacement: string[];
+}
+
+/**
+ * Map new-side (RIGHT) line numbers of a diff hunk to their text
+ */
+function extractRightSideLines(diffHunk: string): Map<number, string> {
+  const lines = diffHunk.split('\n');
+  const header = lines[0]?.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
+  const rightLines = new Map<number, string>();
+  if (!header) return rightLines;
+
+  let lineNumber = parseInt(header[1]);
+  for (const line of lines.slice(1)) {
+    if (line.startsWith('\\')) continue;
+    if (line.startsWith('-')) continue;
+    rightLines.set(lineNumber++, line.slice(1));
+  }
+
+  return rightLines;
+}
+
+/**
+ * Candidate locations for the commented lines: the current head position first, then the original one
+ */
+function candidateRanges(comment: GitHubComment): Array<{ start: number; end: number }> {
+  const ranges: Array<{ start: number; end: number }> = [];
+
+  if (comment.line) {
+    ranges.push({ start: comment.start_line ?? comment.line, end: comment.line });
+  }
+  if (comment.original_line) {
+    const original = { start: comment.original_start_line ?? comment.original_line, end: comment.original_line };
+    if (!ranges.some(range => range.start === original.start && range.end === original.end)) {
+      ranges.push(original);
+    }
+  }
+
+  return ranges;
+}
+
+function linesMatch(actual: string[], expected: string[]): boolean {
+  return actual.length === expected.length &&
+    actual.every((line, index) => line.trimEnd() === expected[index].trimEnd());
+}
+
+/**
+ * Find where a comment's suggestion applies in the given file lines
+ *
+ * The commented lines are taken from the comment's diff_hunk and looked up at the comment's
+ * current position, then at its original one. Throws if they no longer match.
+ */
+export function locateSuggestionTarget(
+  comment: GitHubComment,
+  suggestion: string,
+  fileLines: string[]
+): SuggestionTarget {
+  if (comment.subject_type === 'file' || comment.side === 'LEFT') {
+    throw new Error(`Comment ${comment.id} is not attached to lines on the new side of the diff`);
+  }
+
+  const hunkLines = extractRightSideLines(comment.diff_hunk);
+  const originalEnd = comment.original_line ?? comment.line;
+  const originalStart = comment.original_start_line ?? originalEnd;
+  if (!originalStart || !originalEnd) {
+    throw new Error(`Comment ${comment.id} has no line range`);
+  }
+
+  const expected: string[] = [];
+  for (let line = originalStart; line <= originalEnd; line++) {
+    const text = hunkLines.get(line);
+    if (text === undefined) {
+      throw new Error(`Cannot verify lines ${originalStart}-${originalEnd}: they are not part of the comment's diff_hunk`);
+    }
+    expected.push(text);
+  }
+
+  const target = candidateRanges(comment).find(range =>
+    range.end <= fileLines.length &&
+    linesMatch(fileLines.slice(range.start - 1, range.end), expected)
+  );
+
+  if (!target) {
+    throw new Error(
+      `Lines ${originalStart}-${originalEnd} of ${comment.path} no longer match the comment's diff_hunk; refusing to apply`
+    );
+  }
+
+  return {
+    ...target,
+    replacement: suggestion === '' ? [] : suggestion.replace(/\r/g, '').split('\n')
+  };
+}
+
+/**
+ * Find two suggestions for the same file whose target lines overlap, if any
+ */
+export function findOverlap<T extends { target: SuggestionTarget }>(planned: T[]): [T, T] | null {
+  const sorted = [...planned].sort((a, b) => a.target.start - b.target.start);
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i].target.start <= sorted[i - 1].target.end) {
+      return [sorted[i - 1], sorted[i]];
+    }
+  }
+  return null;
+}
+
+/**
+ * Split file content into lines, remembering the line ending and trailing newline
+ */
+export function splitFileLines(content: string): { lines: string[]; eol: string; trailingNewline: boolean } {
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  const trailingNewline = content.endsWith(eol);
+  const lines = content.split(eol);
+  if (trailingNewline) {
+    lines.pop();
+  }
+  return { lines, eol, trailingNewline };
+}
+
+/**
+ * Join lines produced by splitFileLines back into file content
+ */
+export function joinFileLines(lines: string[], eol: string, trailingNewline: boolean): string {
+  return lines.join(eol) + (trailingNewline ? eol : '');
+}
+
+/**
+ * Replace the target lines of a file (1-based, inclusive)
+ */
+export function replaceLines(fileLines: string[], target: SuggestionTarget): string[] {
+  return [
+    ...fileLines.slice(0, target.start - 1),
+    ...target.replacement,
+    ...fileLines.slice(target.end)
+  ];
+}
@@ -0,0 +1,138 @@
+import { z } from 'zod';
+import { CodeRabbitReview, GitHubReview } from '../types.js';
+import { GitHubClient } from '../github-client.js';
+import { parseReviewBody, parseReviewStatus, CodeRabbitStatus } from '../parser/index.js';
+import { toCodeRabbitReview } from './get-reviews.js';
+import { TimeoutSecondsSchema, WaitProgress, pollUntil } from './polling.js';
+
+const WaitForReviewSchema = z.object({
+  owner: z.string().min(1, "Repository owner is required"),
+  repo: z.string().min(1, "Repository name is required"),
+  pullNumber: z.number().int().positive("Pull request number must be positive"),
+  timeoutSeconds: TimeoutSecondsSchema.default(600)
+});
+
+export type WaitForReviewInput = z.infer<typeof WaitForReviewSchema>;
+
+export type WaitForReviewStatus = "reviewed" | "paused" | "skipped" | "rate_limited" | "timed_out";
+
+export interface WaitForReviewResult {
+  status: WaitForReviewStatus;
+  message: string;
+  head_sha: string;
+  /** The CodeRabbit review of the head commit, when `status` is "reviewed" */
+  review?: CodeRabbitReview;
+  /** CodeRabbit's own status note, e.g. how long the rate limit lasts */
+  coderabbit_status?: CodeRabbitStatus;
+  waited_seconds: number;
+}
+
+/**
+ * Whether a review covers the head commit: either it was made on it, or it is an
+ * incremental review whose "📥 Commits" range ends at it
+ */
+export function coversCommit(review: Pick<GitHubReview, 'commit_id' | 'body'>, headSha: string): boolean {
+  if (review.commit_id === headSha) {
+    return true;
+  }
+  const reviewed = parseReviewBody(review.body).reviewed_commits;
+  return reviewed !== undefined && headSha.startsWith(reviewed.to);
+}
+
+/**
+ * Wait until CodeRabbit has reviewed the PR's current head commit
+ *
+ * Reviews and CodeRabbit's status notes are polled with backoff. The wait ends early when
+ * CodeRabbit reports that reviews are paused, that this review was skipped, or that it is
+ * rate limited, since no review will come without further action. Status notes last updated
+ * before the head commit was committed describe an earlier push and are ignored.
+ */
+export async function waitForReview(
+  input: WaitForReviewInput,
+  githubClient: GitHubClient,
+  onProgress?: (progress: WaitProgress) => void | Promise<void>
+): Promise<WaitForReviewResult> {
+  // Validate input
+  const validatedInput = WaitForReviewSchema.parse(input);
+  const { owner, repo, pullNumber, timeoutSeconds } = validatedInput;
+
+  try {
+    const pr = await githubClient.getPullRequest(owner, repo, pullNumber);
+    const headSha = pr.head.sha;
+    const shortSha = headSha.slice(0, 7);
+    const headCommittedAt = Date.parse((await githubClient.getGitCommit(owner, repo, headSha)).committer.date);
+    let pending = `Waiting for CodeRabbit to review ${shortSha}`;
+
+    const { value, elapsed_ms } = await pollUntil<{ review?: GitHubReview; status?: CodeRabbitStatus }>(async () => {
+      const { items: reviews } = await githubClient.getPullRequestReviews(owner, repo, pullNumber);
+      const review = reviews
+        .filter(candidate => candidate.user.login === 'coderabbitai[bot]' && coversCommit(candidate, headSha))
+        .sort((a, b) => b.submitted_at.localeCompare(a.submitted_at))[0];
+      if (review) {
+        return { review };
+      }
+
+      // The most recently updated CodeRabbit comment reflects its current state
+      const { items: comments } = await githubClient.getIssueComments(owner, repo, pullNumber);
+      const latest = comments
+        .filter(comment => comment.user.login === 'coderabbitai[bot]')
+        .sort((a, b) => b.updated_at.localeCompare(a.updated_at))[0];
+      const status = latest && Date.parse(latest.updated_at) > headCommittedAt
+        ? parseReviewStatus(latest.body ?? '')
+        : undefined;
+
+      if (status && status.state !== 'in_progress') {
+        return { status };
+      }
+      pending = status
+        ? `CodeRabbit review of ${shortSha} in progress`
+        : `Waiting for CodeRabbit to start reviewing ${shortSha}`;
+      return undefined;
+    }, {
+      timeoutMs: timeoutSeconds * 1000,
+      onPending: (_attempt, elapsedMs) => onProgress?.({
+        elapsed_seconds: Math.round(elapsedMs / 1000),
+        timeout_seconds: timeoutSeconds,
+        message: pending
+      })
+    });
+
+    const waitedSeconds = Math.round(elapsed_ms / 1000);
+
+    if (value?.review) {
+      return {
+        status: 'reviewed',
+        message: `CodeRabbit reviewed ${shortSha}`,
+        head_sha: headSha,
+        review: toCodeRabbitReview(value.review),
+        waited_seconds: waitedSeconds
+      };
+    }
+
+    if (value?.status) {
+      const messages: Record<Exclude<CodeRabbitStatus['state'], 'in_progress'>, string> = {
+        paused: `CodeRabbit reviews are paused on PR #${pullNumber}; use coderabbit_command with "resume" or "review"`,
+        skipped: `CodeRabbit skipped reviewing PR #${pullNumber}; use coderabbit_command with "review" to request one`,
+        rate_limited: `CodeRabbit is rate limited on PR #${pullNumber}; request a review with coderabbit_command once the limit resets`
+      };
+      const state = value.status.state as keyof typeof messages;
+      return {
+        status: state,
+        message: messages[state],
+        head_sha: headSha,
+        coderabbit_status: value.status,
+        waited_seconds: waitedSeconds
+      };
+    }
+
+    return {
+      status: 'timed_out',
+      message: `${pending}; no review after ${timeoutSeconds}s`,
+      head_sha: headSha,
+      waited_seconds: waitedSeconds
+    };
+
+  } catch (error) {
+    throw new Error(`Failed to wait for review: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
@@ -30,6 +30,8 @@ export interface GitHubComment {
   original_position?: number;
   original_line?: number;
   original_start_line?: number;
+  line?: number | null;
+  start_line?: number | null;
   side: "LEFT" | "RIGHT";
   start_side?: "LEFT" | "RIGHT";
   commit_id: string;
@@ -39,10 +41,34 @@ export interface GitHubComment {
   updated_at: string;
   author_association: string;
   html_url: string;
+  pull_request_url: string;
   pull_request_review_id: number;
+  in_reply_to_id?: number;
   subject_type: "line" | "file";
 }
 
+export interface GitHubIssueComment {
+  id: number;
+  node_id: string;
+  body: string;
+  user: GitHubUser;
+  created_at: string;
+  updated_at: string;
+  author_association: string;
+  html_url: string;
+  issue_url: string;
+}
+
+export interface GitHubReviewThread {
+  id: string;
+  isResolved: boolean;
+  isOutdated: boolean;
+  resolvedBy: { login: string } | null;
+  comments: {
+    nodes: Array<{ databaseId: number }>;
+  };
+}
+
 export interface CodeRabbitReview {
   id: number;
   submitted_at: string;
@@ -55,7 +81,14 @@ export interface CodeRabbitReview {
 }
 
 export interface CodeRabbitComment {
-  id: number;
+  /** GitHub comment ID, or a synthetic string ID for items embedded in a review body */
+  id: number | string;
+  /** False for nitpick/duplicate items that only exist in a review body */
+  inline: boolean;
+  /** Review body section the item came from (review body items only) */
+  kind?: "nitpick" | "duplicate" | "outside_diff" | "additional";
+  review_id?: number;
+  title?: string;
   body: string;
   path: string;
   line_range: {
@@ -73,6 +106,47 @@ export interface CodeRabbitComment {
   created_at: string;
   updated_at: string;
   is_resolved: boolean;
+  /** The commented lines changed after the comment was made */
+  is_outdated: boolean;
+  /**
+   * Where `is_resolved` came from: GitHub's review thread state, the local ledger,
+   * or the comment body (only when thread state could not be fetched)
+   */
+  resolution_source: "github" | "ledger" | "heuristic";
+  /** GraphQL node ID of the review thread */
+  thread_id?: string;
+  resolved_by?: string;
+  /** Latest entry for this comment in the local resolution ledger */
+  local_resolution?: ResolutionRecord;
+}
+
+export type ResolutionType = "addressed" | "wont_fix" | "not_applicable" | "resolved" | "unresolved";
+
+/**
+ * One line of the local resolution ledger
+ */
+export interface ResolutionRecord {
+  /** Review comment ID, or the synthetic ID of a review body item (e.g. a nitpick) */
+  comment_id: number | string;
+  owner: string;
+  repo: string;
+  pull_number: number;
+  resolution: ResolutionType;
+  note?: string;
+  /** PR head commit at the time of resolution, or the commit given by the caller */
+  commit_sha?: string;
+  /** How the resolution was reported on GitHub, e.g. 'thread_reply', 'graphql', 'tracked' */
+  method: string;
+  recorded_at: string;
+}
+
+/**
+ * Result of a tool that reads paginated GitHub lists, which the client stops
+ * fetching after CODERABBIT_MAX_ITEMS items
+ */
+export interface CappedResult {
+  /** True when the max-items cap stopped fetching before every item was seen */
+  results_capped: boolean;
 }
 
 export interface CodeRabbitCommentDetails extends CodeRabbitComment {
@@ -85,8 +159,13 @@ export interface ParsedCodeRabbitContent {
   actionable_comments: number;
   duplicate_comments: number;
   nitpick_comments: number;
+  outside_diff_comments: number;
   summary: string;
   comments: Array<{
+    /** Synthetic ID of the review body item */
+    id?: string;
+    kind?: string;
+    title?: string;
     category: string;
     severity: string;
     description: string;
@@ -0,0 +1,73 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { withLedgerState } from '../dist/tools/get-comments.js';
+
+const comment = overrides => ({
+  id: 101,
+  inline: true,
+  body: 'Prefer `const`.',
+  path: 'src/handler.js',
+  is_resolved: false,
+  is_outdated: false,
+  resolution_source: 'github',
+  ...overrides
+});
+
+const record = resolution => ({
+  comment_id: 101,
+  owner: 'acme',
+  repo: 'chat',
+  pull_number: 7,
+  resolution,
+  method: 'thread_reply',
+  recorded_at: '2026-01-01T00:00:00.000Z'
+});
+
+test('no ledger entry leaves the comment as-is', () => {
+  const original = comment();
+
+  assert.equal(withLedgerState(original, undefined), original);
+});
+
+test('ledger entry overrides the body heuristic', () => {
+  const merged = withLedgerState(comment({ resolution_source: 'heuristic' }), record('addressed'));
+
+  assert.equal(merged.is_resolved, true);
+  assert.equal(merged.resolution_source, 'ledger');
+  assert.equal(merged.local_resolution.resolution, 'addressed');
+
+  const reopened = withLedgerState(comment({ resolution_source: 'heuristic', is_resolved: true }), record('unresolved'));
+  assert.equal(reopened.is_resolved, false);
+});
+
+test("GitHub's open thread wins over an addressed entry", () => {
+  const merged = withLedgerState(comment(), record('addressed'));
+
+  assert.equal(merged.is_resolved, false);
+  assert.equal(merged.resolution_source, 'github');
+  assert.equal(merged.local_resolution.resolution, 'addressed');
+});
+
+test("won't fix and not applicable count for an open thread", () => {
+  for (const resolution of ['wont_fix', 'not_applicable']) {
+    const merged = withLedgerState(comment(), record(resolution));
+
+    assert.equal(merged.is_resolved, true);
+    assert.equal(merged.resolution_source, 'ledger');
+  }
+});
+
+test("GitHub's resolved thread stays resolved", () => {
+  const merged = withLedgerState(comment({ is_resolved: true }), record('unresolved'));
+
+  assert.equal(merged.is_resolved, true);
+  assert.equal(merged.resolution_source, 'github');
+});
+
+test('review body items take their state from the ledger', () => {
+  const item = comment({ id: 'review-9-nitpick-1a2b3c4d', inline: false, resolution_source: 'heuristic' });
+  const merged = withLedgerState(item, { ...record('wont_fix'), comment_id: item.id });
+
+  assert.equal(merged.is_resolved, true);
+  assert.equal(merged.resolution_source, 'ledger');
+});
@@ -0,0 +1,110 @@
+import { test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { GitHubClient } from '../dist/github-client.js';
+import { ResponseCache } from '../dist/response-cache.js';
+
+const realFetch = globalThis.fetch;
+let requests;
+
+/**
+ * Replace fetch with a handler that sees every request in order
+ */
+function stubFetch(handler) {
+  requests = [];
+  globalThis.fetch = async (url, init = {}) => {
+    requests.push({ url: String(url), method: init.method ?? 'GET', headers: init.headers ?? {} });
+    return handler(requests.length);
+  };
+}
+
+const json = (body, status = 200, headers = {}) =>
+  new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json', ...headers } });
+
+beforeEach(t => {
+  t.mock.method(console, 'warn', () => {});
+});
+
+afterEach(() => {
+  globalThis.fetch = realFetch;
+  delete process.env.CODERABBIT_MAX_RETRIES;
+});
+
+test('rate-limited requests are retried after Retry-After', async () => {
+  stubFetch(count => count === 1
+    ? json({ message: 'secondary rate limit' }, 403, { 'retry-after': '0' })
+    : json({ head: { sha: 'abc1234' } }));
+  const client = new GitHubClient('token', undefined, { cache: false });
+
+  const pr = await client.getPullRequest('acme', 'chat', 7);
+
+  assert.equal(pr.head.sha, 'abc1234');
+  assert.equal(requests.length, 2);
+});
+
+test('server errors on GET are retried with backoff until maxRetries', async () => {
+  stubFetch(() => json({ message: 'unavailable' }, 503));
+  const client = new GitHubClient('token', undefined, { cache: false, maxRetries: 1 });
+
+  const started = Date.now();
+  await assert.rejects(client.getPullRequest('acme', 'chat', 7), error => error.status === 503);
+
+  assert.equal(requests.length, 2);
+  // The first backoff waits between 50% and 100% of a second
+  assert.ok(Date.now() - started >= 450);
+});
+
+test('server errors on writes are not retried', async () => {
+  stubFetch(() => json({ message: 'unavailable' }, 502));
+  const client = new GitHubClient('token', undefined, { cache: false, maxRetries: 3 });
+
+  await assert.rejects(client.addIssueComment('acme', 'chat', 7, 'hello'), error => error.status === 502);
+  assert.equal(requests.length, 1);
+});
+
+test('CODERABBIT_MAX_RETRIES=0 disables retries', async () => {
+  process.env.CODERABBIT_MAX_RETRIES = '0';
+  stubFetch(() => json({ message: 'rate limited' }, 429, { 'retry-after': '0' }));
+  const client = new GitHubClient('token', undefined, { cache: false });
+
+  await assert.rejects(client.getPullRequest('acme', 'chat', 7), error => error.status === 429);
+  assert.equal(requests.length, 1);
+});
+
+test('waits longer than maxWaitMs fail instead of retrying', async () => {
+  stubFetch(() => json({ message: 'rate limited' }, 429, { 'retry-after': '120' }));
+  const client = new GitHubClient('token', undefined, { cache: false, maxWaitMs: 1000 });
+
+  await assert.rejects(client.getPullRequest('acme', 'chat', 7), error => error.status === 429);
+  assert.equal(requests.length, 1);
+});
+
+test('GET responses are revalidated with their ETag', async () => {
+  stubFetch(count => count === 1
+    ? json({ head: { sha: 'abc1234' } }, 200, { etag: '"v1"' })
+    : new Response(null, { status: 304 }));
+  const cache = new ResponseCache();
+  const client = new GitHubClient('token', undefined, { cache });
+
+  const first = await client.getPullRequest('acme', 'chat', 7);
+  const second = await client.getPullRequest('acme', 'chat', 7);
+
+  assert.deepEqual(second, first);
+  assert.equal(requests[0].headers['If-None-Match'], undefined);
+  assert.equal(requests[1].headers['If-None-Match'], '"v1"');
+  assert.deepEqual(cache.getStats(), { entries: 1, hits: 1, misses: 1, invalidations: 0 });
+});
+
+test('writes to a pull request drop its cached responses', async () => {
+  stubFetch(count => count === 2
+    ? json({ id: 1 }, 201)
+    : json({ head: { sha: 'abc1234' } }, 200, { etag: '"v1"' }));
+  const cache = new ResponseCache();
+  const client = new GitHubClient('token', undefined, { cache });
+
+  await client.getPullRequest('acme', 'chat', 7);
+  await client.addIssueComment('acme', 'chat', 7, 'hello');
+  await client.getPullRequest('acme', 'chat', 7);
+
+  assert.equal(requests[2].headers['If-None-Match'], undefined);
+  assert.equal(cache.getStats().invalidations, 1);
+});
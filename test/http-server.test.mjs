@@ -0,0 +1,66 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { startHttpServer } from '../dist/http-server.js';
+
+const createMcpServer = () => new Server({ name: 'test', version: '0.0.0' }, { capabilities: {} });
+
+const initialize = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '0.0.0' } }
+};
+
+let server;
+let baseUrl;
+
+before(async () => {
+  server = await startHttpServer(createMcpServer, { port: 0, host: '127.0.0.1', authToken: 'team-secret' });
+  baseUrl = `http://127.0.0.1:${server.httpServer.address().port}`;
+});
+
+after(async () => {
+  await server.close();
+});
+
+const postInitialize = headers => fetch(`${baseUrl}/mcp`, {
+  method: 'POST',
+  headers: { 'content-type': 'application/json', accept: 'application/json, text/event-stream', ...headers },
+  body: JSON.stringify(initialize)
+});
+
+test('health check needs no token', async () => {
+  const response = await fetch(`${baseUrl}/health`);
+
+  assert.equal(response.status, 200);
+  assert.deepEqual(await response.json(), { status: 'ok', sessions: 0 });
+});
+
+test('MCP requests without the bearer token are rejected', async () => {
+  for (const headers of [{}, { authorization: 'Bearer wrong' }, { authorization: 'Basic team-secret' }]) {
+    const response = await postInitialize(headers);
+
+    assert.equal(response.status, 401);
+    assert.equal(response.headers.get('www-authenticate'), 'Bearer');
+  }
+
+  const sse = await fetch(`${baseUrl}/sse`);
+  assert.equal(sse.status, 401);
+  await sse.body?.cancel();
+});
+
+test('MCP requests with the bearer token open a session', async () => {
+  const response = await postInitialize({ authorization: 'Bearer team-secret' });
+  await response.text();
+
+  assert.equal(response.status, 200);
+  assert.ok(response.headers.get('mcp-session-id'));
+});
+
+test('non-loopback hosts require a token', async () => {
+  await assert.rejects(
+    startHttpServer(createMcpServer, { port: 0, host: '0.0.0.0' }),
+    /Refusing to listen on 0\.0\.0\.0 without CODERABBIT_HTTP_TOKEN/
+  );
+});
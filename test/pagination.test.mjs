@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { paginate } from '../dist/tools/pagination.js';
+
+const items = Array.from({ length: 5 }, (_, index) => ({ id: index + 1, body: 'x'.repeat(200) }));
+const query = { owner: 'acme', repo: 'chat', pullNumber: 7 };
+
+test('walking the cursor returns every item once', () => {
+  const seen = [];
+  let cursor;
+  let pages = 0;
+
+  do {
+    const page = paginate(items, { ...query, limit: 2, cursor });
+    seen.push(...page.items.map(item => item.id));
+    assert.equal(page.truncated, page.nextCursor !== undefined);
+    cursor = page.nextCursor;
+    pages++;
+  } while (cursor);
+
+  assert.deepEqual(seen, [1, 2, 3, 4, 5]);
+  assert.equal(pages, 3);
+});
+
+test('cursor is tied to the query it was issued for', () => {
+  const { nextCursor } = paginate(items, { ...query, limit: 2 });
+
+  // Paging inputs and undefined values don't change the fingerprint
+  const samePage = paginate(items, { pullNumber: 7, repo: 'chat', owner: 'acme', path: undefined, limit: 3, maxChars: 5000, cursor: nextCursor });
+  assert.deepEqual(samePage.items.map(item => item.id), [3, 4, 5]);
+
+  assert.throws(
+    () => paginate(items, { ...query, pullNumber: 8, cursor: nextCursor }),
+    /Cursor was issued for a different query/
+  );
+});
+
+test('malformed cursors are rejected', () => {
+  assert.throws(() => paginate(items, { ...query, cursor: 'not-a-cursor' }), /Invalid cursor/);
+
+  const negative = Buffer.from(JSON.stringify({ offset: -1, query: 'x' })).toString('base64url');
+  assert.throws(() => paginate(items, { ...query, cursor: negative }), /Invalid cursor/);
+});
+
+test('maxChars sizes items at the depth they are emitted', () => {
+  const maxChars = 1000;
+  const page = paginate(items, { ...query, maxChars }, { depth: 1 });
+  const emitted = JSON.stringify({ comments: page.items }, null, 2).length;
+
+  assert.equal(page.items.length, 4);
+  assert.ok(emitted <= maxChars + 20, `page of ${emitted} chars`);
+  assert.ok(JSON.stringify({ comments: items.slice(0, 5) }, null, 2).length > maxChars);
+});
+
+test('a page holds at least one item however small maxChars is', () => {
+  const page = paginate(items, { ...query, maxChars: 1000 }, { reservedChars: 5000 });
+
+  assert.equal(page.items.length, 1);
+  assert.ok(page.truncated);
+});
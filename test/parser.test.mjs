@@ -0,0 +1,145 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import {
+  parseCommentBody,
+  parseReviewBody,
+  parseWalkthrough,
+  isWalkthroughComment,
+  parseReviewStatus
+} from '../dist/parser/index.js';
+
+const fixture = name => readFileSync(new URL(`../src/parser/fixtures/${name}`, import.meta.url), 'utf-8');
+
+test('plain nitpick comment', () => {
+  const parsed = parseCommentBody(fixture('inline-nitpick-plain.md'));
+
+  assert.deepEqual(parsed.header.labels, ['🧹 Nitpick (assertive)']);
+  assert.equal(parsed.severity, 'info');
+  assert.equal(parsed.category, 'Nitpick');
+  assert.equal(parsed.title, 'Prefer `const` for bindings that are never reassigned.');
+  assert.equal(parsed.suggestion_blocks.length, 0);
+  assert.equal(parsed.committable_suggestion, undefined);
+  assert.equal(parsed.ai_prompt, undefined);
+});
+
+test('potential issue comment with a committable suggestion', () => {
+  const parsed = parseCommentBody(fixture('inline-potential-issue.md'));
+
+  assert.deepEqual(parsed.header.labels, ['⚠️ Potential issue']);
+  assert.equal(parsed.severity, 'warning');
+  assert.equal(parsed.category, 'Potential Issue');
+  assert.equal(parsed.title, 'Add error handling for async route handlers.');
+  assert.equal(parsed.suggestion_blocks.length, 1);
+  assert.equal(parsed.diff_blocks.length, 1);
+  assert.ok(parsed.committable_suggestion);
+  assert.match(parsed.ai_prompt ?? '', /^In backend\/routes\/messages\.js/);
+});
+
+test('major refactor suggestion', () => {
+  const parsed = parseCommentBody(fixture('inline-refactor-major.md'));
+
+  assert.deepEqual(parsed.header.labels, ['🛠️ Refactor suggestion', '🟠 Major']);
+  assert.equal(parsed.severity, 'warning');
+  assert.equal(parsed.category, 'Refactor Suggestion');
+  assert.equal(parsed.title, 'Initialize the controller once during server startup.');
+  assert.equal(parsed.suggestion_blocks.length, 0);
+  assert.equal(parsed.diff_blocks.length, 1);
+  assert.match(parsed.ai_prompt ?? '', /^In backend\/routes\/messages\.js/);
+});
+
+test('critical security comment', () => {
+  const parsed = parseCommentBody(fixture('inline-security.md'));
+
+  assert.deepEqual(parsed.header.labels, ['🔒 Security', '🔴 Critical']);
+  assert.equal(parsed.severity, 'error');
+  assert.equal(parsed.category, 'Security');
+  assert.equal(parsed.title, 'Escape the search term before building a RegExp.');
+  assert.equal(parsed.suggestion_blocks.length, 1);
+  assert.ok(parsed.committable_suggestion);
+  assert.match(parsed.ai_prompt ?? '', /^In backend\/services\/messageService\.js/);
+});
+
+test('review body counts, metadata and items', () => {
+  const parsed = parseReviewBody(fixture('review-body.md'));
+
+  assert.equal(parsed.actionable_comments, 3);
+  assert.equal(parsed.nitpick_comments, 3);
+  assert.equal(parsed.duplicate_comments, 1);
+  assert.equal(parsed.outside_diff_comments, 2);
+  assert.equal(parsed.configuration_used, 'CodeRabbit UI');
+  assert.equal(parsed.review_profile, 'CHILL');
+  assert.deepEqual(parsed.files_reviewed, [
+    'backend/routes/messages.js',
+    'backend/services/messageService.js',
+    'config/database.yml.example',
+    'scripts/test-messaging.sh'
+  ]);
+  assert.deepEqual(parsed.reviewed_commits, { from: '3f2c1a9', to: '8be41d0' });
+
+  assert.equal(parsed.items.length, 7);
+  assert.deepEqual(
+    parsed.items.map(item => [item.kind, item.file_path, item.line_range.start, item.line_range.end, item.severity, item.category]),
+    [
+      ['nitpick', 'backend/services/messageService.js', 45, 52, 'info', 'Nitpick'],
+      ['nitpick', 'backend/services/messageService.js', 120, 120, 'info', 'Nitpick'],
+      ['nitpick', 'scripts/test-messaging.sh', 10, 12, 'info', 'Nitpick'],
+      ['duplicate', 'backend/routes/messages.js', 34, 82, 'info', 'Duplicate'],
+      ['outside_diff', 'config/database.yml.example', 30, 34, 'warning', 'Potential Issue'],
+      ['outside_diff', 'Dockerfile', 12, 12, 'suggestion', 'Refactor Suggestion'],
+      ['additional', 'backend/controllers/messageController.js', 12, 18, 'info', 'Additional']
+    ]
+  );
+});
+
+test('walkthrough comment', () => {
+  const body = fixture('walkthrough.md');
+  assert.ok(isWalkthroughComment(body));
+  assert.equal(parseReviewStatus(body), undefined);
+
+  const parsed = parseWalkthrough(body);
+
+  assert.match(parsed.summary, /^The message service now keeps conversations in a `Map`/);
+  assert.deepEqual(
+    parsed.changes.map(change => [change.cohort, change.files]),
+    [
+      ['Conversation lookup', ['backend/services/messageService.js']],
+      ['Test tooling', ['scripts/test-messaging.sh', 'scripts/seed.sh']],
+      [undefined, ['Dockerfile']]
+    ]
+  );
+  assert.equal(parsed.sequence_diagrams.length, 1);
+  assert.deepEqual(parsed.estimated_review_effort, { level: 2, label: 'Simple', minutes: 10 });
+  assert.ok(parsed.poem);
+
+  assert.deepEqual(
+    parsed.linked_issues.map(issue => [issue.issue, issue.objectives.map(objective => objective.addressed)]),
+    [
+      ['#40', [true, true, false]],
+      ['#38', [null]]
+    ]
+  );
+  assert.deepEqual(
+    parsed.related_prs.map(pr => [pr.repository, pr.number]),
+    [
+      [undefined, 41],
+      ['acme/chat-sdk', 12]
+    ]
+  );
+  assert.deepEqual(parsed.sections.map(section => section.heading), [
+    'Walkthrough',
+    'Changes',
+    'Sequence Diagram(s)',
+    'Estimated code review effort',
+    'Assessment against linked issues',
+    'Possibly related PRs',
+    'Poem'
+  ]);
+});
+
+test('rate limit status note', () => {
+  const status = parseReviewStatus(fixture('status-rate-limited.md'));
+
+  assert.equal(status?.state, 'rate_limited');
+  assert.match(status?.detail ?? '', /Please wait \*\*23 minutes and 59 seconds\*\*/);
+});
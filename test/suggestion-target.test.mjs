@@ -0,0 +1,78 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { locateSuggestionTarget, findOverlap } from '../dist/tools/suggestion-target.js';
+
+const diffHunk = [
+  '@@ -8,5 +8,6 @@ export function handler(req, res) {',
+  '   const id = req.params.id;',
+  '-  const user = users.find(id);',
+  '+  const user = users.get(id);',
+  '+  if (!user) return res.status(404).end();',
+  '   res.json(user);'
+].join('\n');
+
+const comment = overrides => ({
+  id: 101,
+  path: 'src/handler.js',
+  side: 'RIGHT',
+  diff_hunk: diffHunk,
+  original_start_line: 9,
+  original_line: 10,
+  start_line: 9,
+  line: 10,
+  ...overrides
+});
+
+const fileLines = [
+  ...Array.from({ length: 7 }, (_, index) => `// line ${index + 1}`),
+  '  const id = req.params.id;',
+  '  const user = users.get(id);',
+  '  if (!user) return res.status(404).end();',
+  '  res.json(user);'
+];
+
+test('suggestion target at the comment position', () => {
+  const target = locateSuggestionTarget(comment(), 'const user = lookup(id);', fileLines);
+
+  assert.deepEqual(target, { start: 9, end: 10, replacement: ['const user = lookup(id);'] });
+});
+
+test('suggestion target found at the original position after the comment moved', () => {
+  const target = locateSuggestionTarget(comment({ start_line: 20, line: 21 }), 'a\r\nb', fileLines);
+
+  assert.deepEqual(target, { start: 9, end: 10, replacement: ['a', 'b'] });
+});
+
+test('empty suggestion deletes the target lines', () => {
+  const target = locateSuggestionTarget(comment(), '', fileLines);
+
+  assert.deepEqual(target.replacement, []);
+});
+
+test('suggestion target refuses lines that changed since the comment', () => {
+  const changed = fileLines.map(line => line.replace('users.get', 'users.fetch'));
+
+  assert.throws(() => locateSuggestionTarget(comment(), 'x', changed), /no longer match the comment's diff_hunk/);
+});
+
+test('suggestion target refuses comments outside the new side of the diff', () => {
+  assert.throws(() => locateSuggestionTarget(comment({ side: 'LEFT' }), 'x', fileLines), /not attached to lines on the new side/);
+  assert.throws(() => locateSuggestionTarget(comment({ subject_type: 'file' }), 'x', fileLines), /not attached to lines on the new side/);
+});
+
+test('suggestion target refuses lines missing from the diff hunk', () => {
+  const outside = comment({ original_start_line: 2, original_line: 3, start_line: 2, line: 3 });
+
+  assert.throws(() => locateSuggestionTarget(outside, 'x', fileLines), /not part of the comment's diff_hunk/);
+});
+
+test('overlapping suggestions', () => {
+  const planned = (id, start, end) => ({ id, target: { start, end, replacement: [] } });
+
+  assert.equal(findOverlap([planned(1, 1, 2), planned(2, 3, 4), planned(3, 10, 10)]), null);
+  assert.deepEqual(
+    findOverlap([planned(1, 10, 12), planned(2, 1, 2), planned(3, 12, 14)]).map(item => item.id),
+    [1, 3]
+  );
+  assert.equal(findOverlap([]), null);
+});